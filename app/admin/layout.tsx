@@ -0,0 +1,55 @@
+import { SidebarNav } from "@/components/global/sidebar-nav";
+import { Separator } from "@/components/ui/separator";
+import { PageHeader1, PageSubHeader1 } from "@/components/ui/typography";
+import { fetchRole } from "@/lib/roles";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+
+const sidebarNavItems = [
+  {
+    title: "Users",
+    href: "/admin/users",
+  },
+  {
+    title: "Species",
+    href: "/admin/species",
+  },
+];
+
+interface AdminLayoutProps {
+  children: React.ReactNode;
+}
+
+export default async function AdminLayout({ children }: AdminLayoutProps) {
+  // Create supabase server component client and obtain user session from stored cookie
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  // The policies in setup.sql enforce this too; the redirect just keeps other users out of a page they can't use
+  if ((await fetchRole(supabase, session.user.id)) !== "admin") {
+    redirect("/");
+  }
+
+  return (
+    <>
+      <div className="space-y-0.5">
+        <PageHeader1>Admin</PageHeader1>
+        <PageSubHeader1>Manage user roles and species authorship.</PageSubHeader1>
+      </div>
+      <Separator className="my-6" />
+      <div className="flex flex-col space-y-8 lg:flex-row lg:space-x-12 lg:space-y-0">
+        <aside className="-mx-4 lg:w-1/5">
+          <SidebarNav items={sidebarNavItems} />
+        </aside>
+        <div className="flex-1">{children}</div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { speciesPath } from "@/lib/species-url";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import EditSpeciesDialog from "../../species/edit";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Profile = Pick<Database["public"]["Tables"]["profiles"]["Row"], "id" | "display_name" | "email">;
+
+export default function AdminSpeciesList({
+  species,
+  profiles,
+  userId,
+}: {
+  species: Species[];
+  profiles: Profile[];
+  userId: string;
+}) {
+  const router = useRouter();
+  const [saving, setSaving] = useState<number | null>(null);
+
+  // Only admins may change the author; the species_columns_updateable trigger rejects it for everyone else
+  const handleAuthorChange = async (s: Species, author: string) => {
+    if (author === s.author) return;
+
+    setSaving(s.id);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("species").update({ author }).eq("id", s.id);
+    setSaving(null);
+
+    if (error) {
+      toast({ title: "Could not change author.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    const name = profiles.find((p) => p.id === author)?.display_name ?? "the new author";
+    toast({ title: "Author changed", description: `${s.scientific_name} now belongs to ${name}.` });
+    router.refresh();
+  };
+
+  if (species.length === 0) {
+    return <p className="text-sm text-muted-foreground">No species found.</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded border">
+      {species.map((s) => (
+        <li key={s.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+          <div>
+            <Link href={speciesPath(s)} className="font-medium italic hover:underline">
+              {s.scientific_name}
+            </Link>
+            {s.common_name && <p className="text-sm text-muted-foreground">{s.common_name}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={s.author}
+              onValueChange={(value) => void handleAuthorChange(s, value)}
+              disabled={saving !== null}
+            >
+              <SelectTrigger className="w-48" aria-label={`Author of ${s.scientific_name}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.display_name} ({profile.email})
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <EditSpeciesDialog userId={userId} role="admin" species={s} onUpdated={() => router.refresh()} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import AdminSpeciesList from "./admin-species-list";
+
+// Enough to find a species by name; narrow the search to see more
+const MAX_RESULTS = 100;
+
+interface AdminSpeciesProps {
+  searchParams: { q?: string };
+}
+
+export default async function AdminSpecies({ searchParams }: AdminSpeciesProps) {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  const search = searchParams.q?.trim() ?? "";
+  // Searches use the same ranked search as the species list (search_species skips species in the trash)
+  const speciesQuery = search
+    ? supabase.rpc("search_species", { query: search }).limit(MAX_RESULTS)
+    : supabase.from("species").select().is("deleted_at", null).order("scientific_name").limit(MAX_RESULTS);
+
+  const [speciesResult, profilesResult] = await Promise.all([
+    speciesQuery,
+    supabase.from("profiles").select("id, display_name, email").order("display_name"),
+  ]);
+  const error = speciesResult.error ?? profilesResult.error;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Species</h3>
+        <p className="text-sm text-muted-foreground">Edit any species or hand it over to another author.</p>
+      </div>
+      <Separator />
+      <form className="flex max-w-md gap-2">
+        <Input name="q" defaultValue={search} placeholder="Search by scientific or common name" />
+        <Button type="submit" variant="secondary">
+          Search
+        </Button>
+      </form>
+      {error ? (
+        <p>{error.message}</p>
+      ) : (
+        <AdminSpeciesList
+          species={speciesResult.data ?? []}
+          profiles={profilesResult.data ?? []}
+          userId={session.user.id}
+        />
+      )}
+      {speciesResult.data?.length === MAX_RESULTS && (
+        <p className="text-sm text-muted-foreground">Showing the first {MAX_RESULTS} species. Search to find others.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { Separator } from "@/components/ui/separator";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import UserRoleList from "./user-role-list";
+
+export default async function AdminUsers() {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  const { data, error } = await supabase.from("profiles").select("id, display_name, email, role").order("display_name");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Users</h3>
+        <p className="text-sm text-muted-foreground">Choose what each user is allowed to do.</p>
+      </div>
+      <Separator />
+      {error ? <p>{error.message}</p> : <UserRoleList profiles={data} userId={session.user.id} />}
+    </div>
+  );
+}
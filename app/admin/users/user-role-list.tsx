@@ -0,0 +1,77 @@
+"use client";
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { roleDescriptions, roleLabels, roleSchema, roles } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type Profile = Pick<Database["public"]["Tables"]["profiles"]["Row"], "id" | "display_name" | "email" | "role">;
+
+export default function UserRoleList({ profiles, userId }: { profiles: Profile[]; userId: string }) {
+  const router = useRouter();
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const handleRoleChange = async (profile: Profile, value: string) => {
+    const role = roleSchema.safeParse(value);
+    if (!role.success || role.data === profile.role) return;
+
+    setSaving(profile.id);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("profiles").update({ role: role.data }).eq("id", profile.id);
+    setSaving(null);
+
+    if (error) {
+      toast({ title: "Could not change role.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Role updated", description: `${profile.display_name} is now a ${roleLabels[role.data]}.` });
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid gap-1 text-sm sm:grid-cols-[auto_1fr] sm:gap-x-4">
+        {roles.map((role) => (
+          <div key={role} className="contents">
+            <dt className="font-medium">{roleLabels[role]}</dt>
+            <dd className="text-muted-foreground">{roleDescriptions[role]}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <ul className="divide-y rounded border">
+        {profiles.map((profile) => (
+          <li key={profile.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+            <div>
+              <p className="font-medium">{profile.display_name}</p>
+              <p className="text-sm text-muted-foreground">{profile.email}</p>
+            </div>
+            {/* Admins can't change their own role, so there is always at least one admin left */}
+            <Select
+              value={profile.role}
+              onValueChange={(value) => void handleRoleChange(profile, value)}
+              disabled={profile.id === userId || saving !== null}
+            >
+              <SelectTrigger className="w-40" aria-label={`Role of ${profile.display_name}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {roles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {roleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
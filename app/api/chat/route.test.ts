@@ -0,0 +1,221 @@
+import { CHAT_CACHE_HEADER, CHAT_SESSION_HEADER } from "@/lib/chat";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// env.mjs reads the environment when it is first imported, which happens before the tests run
+vi.hoisted(() => {
+  process.env.SPECIES_CHAT_PROVIDER = "mock";
+  process.env.NEXT_PUBLIC_SUPABASE_URL = "http://localhost:54321";
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-key";
+});
+
+vi.mock("server-only", () => ({}));
+
+interface Insert {
+  table: string;
+  row: Record<string, unknown>;
+}
+
+// Stands in for the signed in user's Supabase client: records inserts and RPC calls, and answers the RPCs the route
+// makes. `cache` is the shared answer cache, kept by the service role client when there is one.
+const supabase = vi.hoisted(() => ({
+  userId: null as string | null,
+  inserts: [] as Insert[],
+  rpcs: {} as Record<string, unknown>,
+  calls: [] as string[],
+  cache: null as Map<string, string> | null,
+}));
+
+vi.mock("@/lib/server-utils", () => {
+  const query = (table: string) => {
+    let inserted: Record<string, unknown> | null = null;
+    const result = () => ({ data: inserted ? { id: 1, ...inserted } : null, error: null });
+    const builder = {
+      insert(row: Record<string, unknown>) {
+        inserted = row;
+        supabase.inserts.push({ table, row });
+        return builder;
+      },
+      select: () => builder,
+      is: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      single: () => Promise.resolve(result()),
+      maybeSingle: () => Promise.resolve(result()),
+      then: (resolve: (value: { data: unknown; error: null }) => void) => resolve({ data: [], error: null }),
+    };
+    return builder;
+  };
+
+  return {
+    createServerSupabaseClient: () => ({
+      auth: {
+        getSession: () =>
+          Promise.resolve({ data: { session: supabase.userId ? { user: { id: supabase.userId } } : null } }),
+      },
+      from: query,
+      rpc: (name: string) => {
+        supabase.calls.push(name);
+        return Promise.resolve({ data: supabase.rpcs[name] ?? null, error: null });
+      },
+    }),
+    // Without the service role key, answers aren't cached
+    createServiceSupabaseClient: () => {
+      const { cache } = supabase;
+      if (!cache) return null;
+      return {
+        from: () => {
+          let key = "";
+          const builder = {
+            select: () => builder,
+            eq: (_column: string, value: string) => {
+              key = value;
+              return builder;
+            },
+            gt: () => builder,
+            maybeSingle: () =>
+              Promise.resolve({ data: cache.has(key) ? { reply: cache.get(key) } : null, error: null }),
+            upsert: (row: { key: string; reply: string }) => {
+              cache.set(row.key, row.reply);
+              return Promise.resolve({ error: null });
+            },
+          };
+          return builder;
+        },
+      };
+    },
+  };
+});
+
+const { POST } = await import("./route");
+
+function ask(message: string, headers: Record<string, string> = {}) {
+  return POST(
+    new NextRequest("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ message }),
+    }),
+  );
+}
+
+// The reply is saved once the stream ends, so read it all before checking what was saved
+async function savedReply(res: Response) {
+  const text = await res.text();
+  const saved = supabase.inserts.filter(({ table, row }) => table === "chat_messages" && row.role === "assistant");
+  return { text, saved: saved.map(({ row }) => row.content) };
+}
+
+describe("POST /api/chat", () => {
+  beforeEach(() => {
+    // Each test chats as a new user, so the in-memory rate limits don't carry over
+    supabase.userId = crypto.randomUUID();
+    supabase.inserts = [];
+    supabase.rpcs = { chat_token_quota: null, chat_usage_by_day: [], match_chat_species: [] };
+    supabase.calls = [];
+    supabase.cache = null;
+  });
+
+  it("requires a signed in user", async () => {
+    supabase.userId = null;
+    const res = await ask("Tell me about tigers");
+    expect(res.status).toBe(401);
+  });
+
+  it("streams the mock provider's answer and saves the chat", async () => {
+    const res = await ask("Tell me about tigers");
+    expect(res.status).toBe(200);
+    expect(res.headers.get(CHAT_SESSION_HEADER)).toBe("1");
+    expect(res.headers.get(CHAT_CACHE_HEADER)).toBe("bypass");
+
+    const { text, saved } = await savedReply(res);
+    expect(text).toBe(
+      "This is a mock answer to “Tell me about tigers”. The conversation has 1 message. No catalog records matched.",
+    );
+    expect(saved).toEqual([text]);
+    expect(supabase.inserts).toContainEqual({
+      table: "chat_messages",
+      row: { session_id: 1, role: "user", content: "Tell me about tigers" },
+    });
+    const usage = supabase.inserts.find(({ table }) => table === "chat_usage");
+    expect(usage?.row).toMatchObject({ user_id: supabase.userId, session_id: 1, provider: "mock", model: "mock" });
+  });
+
+  it("grounds the answer in catalog records and links them", async () => {
+    supabase.rpcs.match_chat_species = [
+      {
+        id: 7,
+        scientific_name: "Panthera tigris",
+        common_name: "Tiger",
+        kingdom: "Animalia",
+        iucn_status: "EN",
+        total_population: 4500,
+        description: null,
+      },
+    ];
+    const { text } = await savedReply(await ask("Tell me about tigers"));
+    expect(text).toContain("Our catalog has a record for [Panthera tigris](/species/7");
+  });
+
+  it("turns away off-topic questions", async () => {
+    const { text, saved } = await savedReply(await ask("What's the weather tomorrow?"));
+    expect(text).toMatch(/^I’m a species-focused chatbot/);
+    expect(saved).toEqual([text]);
+    // The mock answered the topic check, which counts against the quota like any request
+    const usage = supabase.inserts.find(({ table }) => table === "chat_usage");
+    expect(usage?.row).toMatchObject({ provider: "mock", model: "mock" });
+  });
+
+  it("answers a repeated first question from the cache", async () => {
+    supabase.cache = new Map();
+    const first = await ask("Tell me about tigers");
+    expect(first.headers.get(CHAT_CACHE_HEADER)).toBe("miss");
+    const { text } = await savedReply(first);
+    // The catalog records in the prompt are looked up once, though both the cache key and the answer need them
+    expect(supabase.calls.filter((name) => name === "match_chat_species")).toHaveLength(1);
+
+    supabase.inserts = [];
+    const second = await ask("tell me about tigers!");
+    expect(second.headers.get(CHAT_CACHE_HEADER)).toBe("hit");
+    const { text: cached, saved } = await savedReply(second);
+    expect(cached).toBe(text);
+    expect(saved).toEqual([text]);
+    // Cached answers use no tokens
+    expect(supabase.inserts.find(({ table }) => table === "chat_usage")).toBeUndefined();
+  });
+
+  it("doesn't cache answers that used tools", async () => {
+    supabase.cache = new Map();
+    const { text } = await savedReply(await ask("List species"));
+    expect(text).toMatch(/^The mock called search_species/);
+    expect(supabase.cache.size).toBe(0);
+
+    const again = await ask("List species");
+    expect(again.headers.get(CHAT_CACHE_HEADER)).toBe("miss");
+    await again.text();
+  });
+
+  it("rejects invalid bodies", async () => {
+    const res = await POST(new NextRequest("http://localhost/api/chat", { method: "POST", body: "not json" }));
+    expect(res.status).toBe(400);
+  });
+
+  it("rate limits users who send too many messages", async () => {
+    for (let i = 0; i < 10; i++) await (await ask("Tell me about tigers")).text();
+    const res = await ask("Tell me about tigers");
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("rate limits addresses by what the proxy saw, not what the client claims", async () => {
+    // Users each under their own limit, all behind one address but each claiming another
+    for (let i = 0; i < 30; i++) {
+      if (i % 5 === 0) supabase.userId = crypto.randomUUID();
+      const res = await ask("Tell me about tigers", { "X-Forwarded-For": `10.0.0.${i}, 203.0.113.7` });
+      await res.text();
+    }
+    const res = await ask("Tell me about tigers", { "X-Forwarded-For": "10.0.0.99, 203.0.113.7" });
+    expect(res.status).toBe(429);
+  });
+});
@@ -1,13 +1,104 @@
-import { NextResponse } from "next/server";
-import { generateResponse } from "@/lib/services/species-chat";
+import { CHAT_CACHE_HEADER, CHAT_SESSION_HEADER, chatRequestSchema, type ChatMessage } from "@/lib/chat";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { fetchCachedReply, type ChatCacheStatus } from "@/lib/services/chat-cache";
+import { fetchChatHistory, saveChatMessage, startChatSession } from "@/lib/services/chat-sessions";
+import { fetchChatQuota, hitChatRateLimits, recordChatUsage } from "@/lib/services/chat-usage";
+import { buildChatPrompt, generateResponse, replyCacheKey } from "@/lib/services/species-chat";
+import { NextResponse, type NextRequest } from "next/server";
 
 export const dynamic = "force-dynamic";
 
-const SPECIES_REGEX =
-  /(species|animal|habitat|diet|conservation|endangered|iucn|taxonomy|genus|family|kingdom|range|distribution|ecosystem|predator|prey|mammal|bird|reptile|amphibian|fish|insect|arachnid|speed|nocturnal|diurnal)/i;
+// Plain text, sent as it is generated; tell proxies not to buffer it
+const STREAM_HEADERS = {
+  "Content-Type": "text/plain; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  "X-Accel-Buffering": "no",
+};
 
-export async function POST(req: Request) {
+/**
+ * Passes the reply through and saves it once it ends, possibly empty. A reply the user stopped is saved as far as it
+ * got, matching what the chat shows.
+ */
+async function* recordReply(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  save: (reply: string) => Promise<void>,
+): AsyncGenerator<string> {
+  let reply = "";
   try {
+    for await (const chunk of chunks) {
+      reply += chunk;
+      yield chunk;
+    }
+  } finally {
+    await save(reply);
+  }
+}
+
+/**
+ * The client's address: the one the platform reports (Vercel fills in `ip`), or else the entry the proxy in front of
+ * the app appended to X-Forwarded-For. Earlier entries come from the client, which can claim any address there.
+ */
+function clientIp(req: NextRequest): string | null {
+  if (req.ip) return req.ip;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded ?? req.headers.get("x-real-ip");
+}
+
+/**
+ * Streams text chunks to the client, pulling the next one only when the client is ready for it.
+ * `upstream` is aborted if the client goes away or stops the response, which cancels the provider request.
+ */
+function streamText(chunks: AsyncGenerator<string>, upstream: AbortController, headers: HeadersInit): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const chunk = await chunks.next();
+        if (chunk.done) controller.close();
+        else controller.enqueue(encoder.encode(chunk.value));
+      } catch (err) {
+        console.error("Chat stream error:", err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      upstream.abort();
+      await chunks.return(undefined);
+    },
+  });
+  return new Response(stream, { headers: { ...STREAM_HEADERS, ...headers } });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createServerSupabaseClient();
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+      return NextResponse.json({ error: "You must be signed in to chat." }, { status: 401 });
+    }
+
+    const limited = await hitChatRateLimits(session.user.id, clientIp(req));
+    if (limited.error !== null) return NextResponse.json({ error: limited.error }, { status: 500 });
+    if (limited.data > 0) {
+      return NextResponse.json(
+        { error: `You’re sending messages too quickly. Try again in ${limited.data} seconds.` },
+        { status: 429, headers: { "Retry-After": String(limited.data) } },
+      );
+    }
+
+    // Checked before each request, so the reply that crosses the line is still answered in full
+    const quota = await fetchChatQuota(supabase);
+    if (quota.error !== null) return NextResponse.json({ error: quota.error }, { status: 500 });
+    if (quota.data.limit !== null && quota.data.used >= quota.data.limit) {
+      const limit = quota.data.limit.toLocaleString("en-US");
+      return NextResponse.json(
+        { error: `You’ve used today’s ${limit} chat tokens. They reset at midnight UTC; see Settings → Usage.` },
+        { status: 429 },
+      );
+    }
+
     let body: unknown;
     try {
       body = await req.json();
@@ -15,26 +106,84 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
     }
 
-    const message = (body as { message?: unknown })?.message;
-    if (typeof message !== "string" || !message.trim()) {
-      return NextResponse.json({ error: "Missing or invalid 'message'." }, { status: 400 });
+    const parsed = chatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        { error: `Invalid '${issue?.path.join(".") ?? "body"}': ${issue?.message ?? "bad value"}` },
+        { status: 400 },
+      );
     }
+    const { message } = parsed.data;
 
-    if (!SPECIES_REGEX.test(message)) {
-      return NextResponse.json({
-        response:
-          "I’m a species-focused chatbot. Ask me about animals, habitats, diets, conservation status, taxonomy, or related topics.",
-      });
+    // Follow-ups are answered in the context of the chat so far, which is loaded from the database
+    let sessionId = parsed.data.sessionId;
+    let history: ChatMessage[] = [];
+    if (sessionId) {
+      const { data, error } = await fetchChatHistory(supabase, sessionId);
+      if (error !== null) return NextResponse.json({ error }, { status: 500 });
+      if (!data) return NextResponse.json({ error: "Chat not found." }, { status: 404 });
+      history = data;
+    } else {
+      const { data, error } = await startChatSession(supabase, session.user.id, message);
+      if (error !== null) return NextResponse.json({ error }, { status: 500 });
+      sessionId = data;
     }
 
-    const response = await generateResponse(message);
-    return NextResponse.json({ response });
+    const turn: ChatMessage = { role: "user", content: message };
+    const saved = await saveChatMessage(supabase, sessionId, turn);
+    if (saved.error !== null) return NextResponse.json({ error: saved.error }, { status: 500 });
+    const messages = [...history, turn];
+
+    const upstream = new AbortController();
+    req.signal.addEventListener("abort", () => upstream.abort());
+    // Tokens used by every provider request behind the reply, recorded as one row with the reply
+    const usage = { provider: "", model: "", promptTokens: 0, completionTokens: 0 };
+    // A chat's first question may have been answered for someone else already; cached answers use no tokens
+    const prompt = await buildChatPrompt(supabase, messages);
+    const cacheKey = replyCacheKey(messages, prompt);
+    const cached = cacheKey ? await fetchCachedReply(cacheKey) : null;
+    const cacheStatus: ChatCacheStatus = !cacheKey ? "bypass" : cached !== null ? "hit" : "miss";
+    // generateResponse applies the topic guard, so off-topic questions get their reminder saved like any reply.
+    // Cached answers are sent in one piece.
+    const reply =
+      cached !== null
+        ? [cached]
+        : generateResponse(supabase, messages, prompt, {
+            signal: upstream.signal,
+            cacheKey,
+            onUsage: (provider, tokens) => {
+              usage.provider = provider.name;
+              usage.model = provider.model;
+              usage.promptTokens += tokens.promptTokens;
+              usage.completionTokens += tokens.completionTokens;
+            },
+          });
+    const chatId = sessionId;
+    const userId = session.user.id;
+    const recorded = recordReply(reply, async (content) => {
+      if (content.trim()) {
+        const { error } = await saveChatMessage(supabase, chatId, { role: "assistant", content });
+        if (error !== null) console.error("Could not save chat reply:", error);
+      }
+      if (usage.provider) {
+        const { provider, model, ...tokens } = usage;
+        const { error } = await recordChatUsage(supabase, {
+          userId,
+          sessionId: chatId,
+          provider,
+          model,
+          usage: tokens,
+        });
+        if (error !== null) console.error("Could not record chat usage:", error);
+      }
+    });
+    return streamText(recorded, upstream, {
+      [CHAT_SESSION_HEADER]: String(chatId),
+      [CHAT_CACHE_HEADER]: cacheStatus,
+    });
   } catch (err) {
     console.error("Chat route error:", err);
-    return NextResponse.json(
-      { error: "Upstream provider error. Please try again." },
-      { status: 502 }
-    );
+    return NextResponse.json({ error: "Upstream provider error. Please try again." }, { status: 502 });
   }
 }
-
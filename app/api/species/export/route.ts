@@ -0,0 +1,59 @@
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import {
+  fetchSpeciesForExport,
+  speciesToCsv,
+  speciesToDarwinCoreArchive,
+  speciesToJson,
+} from "@/lib/services/species-export";
+import { speciesExportQuerySchema, type ExportFormat } from "@/lib/species-export";
+import { NextResponse, type NextRequest } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  dwca: "application/zip",
+};
+
+const extensions: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  dwca: "zip",
+};
+
+// GET /api/species/export?format=csv|json|dwca&kingdom=Animalia&status=EN&search=leo&sort=name
+export async function GET(req: NextRequest) {
+  const parsed = speciesExportQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid '${issue?.path.join(".") ?? "query"}': ${issue?.message ?? "bad value"}` },
+      { status: 400 },
+    );
+  }
+
+  const query = parsed.data;
+  const supabase = createServerSupabaseClient();
+  const { data: species, error } = await fetchSpeciesForExport(supabase, query);
+
+  if (error !== null) {
+    console.error("Species export error:", error);
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  const body =
+    query.format === "csv"
+      ? speciesToCsv(species)
+      : query.format === "json"
+        ? speciesToJson(species)
+        : speciesToDarwinCoreArchive(species);
+  const fileName = `species-${new Date().toISOString().slice(0, 10)}.${extensions[query.format]}`;
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentTypes[query.format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
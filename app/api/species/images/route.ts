@@ -0,0 +1,97 @@
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { fetchRemoteImage, removeStoredSpeciesImage, storeSpeciesImage } from "@/lib/services/species-images";
+import { MAX_IMAGE_BYTES } from "@/lib/species-images";
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const rehostSchema = z.object({ url: z.string().url() });
+
+// POST /api/species/images
+// multipart/form-data with a `file` field uploads an image; JSON { url } imports and rehosts a Wikimedia image.
+// Responds with { image, thumbnail } public URLs.
+export async function POST(req: NextRequest) {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    return NextResponse.json({ error: "You must be signed in to upload images." }, { status: 401 });
+  }
+
+  let input: Buffer;
+  if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    const file = (await req.formData()).get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Missing 'file'." }, { status: 400 });
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: "The image is too large." }, { status: 413 });
+    }
+    input = Buffer.from(await file.arrayBuffer());
+  } else {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+    }
+    const parsed = rehostSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Missing or invalid 'url'." }, { status: 400 });
+    }
+    const { data, error } = await fetchRemoteImage(parsed.data.url);
+    if (error !== null) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    input = data;
+  }
+
+  const { data, error } = await storeSpeciesImage(supabase, session.user.id, input);
+  if (error !== null) {
+    console.error("Species image upload error:", error);
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// DELETE /api/species/images?id=<species_images id>
+// Removes an image from its species' gallery and, for images uploaded through the app, deletes its stored files.
+export async function DELETE(req: NextRequest) {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) {
+    return NextResponse.json({ error: "You must be signed in to remove images." }, { status: 401 });
+  }
+
+  const id = Number(req.nextUrl.searchParams.get("id"));
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Missing or invalid 'id'." }, { status: 400 });
+  }
+
+  // Row level security decides who may delete, so nothing comes back for images the user can't manage
+  const { data, error } = await supabase
+    .from("species_images")
+    .delete()
+    .eq("id", id)
+    .select("species_id, storage_path, added_by");
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  const [image] = data;
+  if (!image) {
+    return NextResponse.json({ error: "Image not found." }, { status: 404 });
+  }
+
+  if (image.storage_path) {
+    const removed = await removeStoredSpeciesImage(supabase, { ...image, storage_path: image.storage_path });
+    // The image is already out of the gallery; leftover files are only wasted space
+    if (removed.error !== null) console.error("Species image cleanup error:", removed.error);
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,34 @@
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { decodeCursor, fetchSpeciesPage } from "@/lib/services/species-list";
+import { speciesQuerySchema } from "@/lib/species-query";
+import { NextResponse, type NextRequest } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/species?sort=relevance|id|name|population&kingdom=Animalia&status=EN&search=leo&cursor=...&limit=24
+export async function GET(req: NextRequest) {
+  const parsed = speciesQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid '${issue?.path.join(".") ?? "query"}': ${issue?.message ?? "bad value"}` },
+      { status: 400 },
+    );
+  }
+
+  const query = parsed.data;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (query.cursor && !cursor) {
+    return NextResponse.json({ error: "Invalid 'cursor'." }, { status: 400 });
+  }
+
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await fetchSpeciesPage(supabase, query, cursor);
+
+  if (error) {
+    console.error("Species list error:", error);
+    return NextResponse.json({ error: "Could not load species." }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -13,6 +13,18 @@ const sidebarNavItems = [
     title: "Profile",
     href: "/settings/profile",
   },
+  {
+    title: "Suggested edits",
+    href: "/settings/suggestions",
+  },
+  {
+    title: "Trash",
+    href: "/settings/trash",
+  },
+  {
+    title: "Usage",
+    href: "/settings/usage",
+  },
 ];
 
 interface SettingsLayoutProps {
@@ -35,7 +47,9 @@ export default async function SettingsLayout({ children }: SettingsLayoutProps)
     <>
       <div className="space-y-0.5">
         <PageHeader1>Settings</PageHeader1>
-        <PageSubHeader1>Manage your account and profile settings.</PageSubHeader1>
+        <PageSubHeader1>
+          Manage your account, profile, suggested edits, deleted species and chatbot usage.
+        </PageSubHeader1>
       </div>
       <Separator className="my-6" />
       <div className="flex flex-col space-y-8 lg:flex-row lg:space-x-12 lg:space-y-0">
@@ -0,0 +1,71 @@
+import { Separator } from "@/components/ui/separator";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { asSnapshot, fetchTaxonNames } from "@/lib/species-fields";
+import { redirect } from "next/navigation";
+import ProposalList from "./proposal-list";
+
+export default async function SuggestionsSettings() {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  // Other users' proposals are only visible to those who can review them: the species author and moderators
+  const [incomingResult, outgoingResult] = await Promise.all([
+    supabase
+      .from("species_edit_proposals")
+      .select("*, species(*), profiles(display_name)")
+      .neq("proposed_by", session.user.id)
+      .eq("status", "pending")
+      .order("created_at"),
+    supabase
+      .from("species_edit_proposals")
+      .select("*, species(*), profiles(display_name)")
+      .eq("proposed_by", session.user.id)
+      .order("created_at", { ascending: false })
+      .limit(50),
+  ]);
+
+  const error = incomingResult.error ?? outgoingResult.error;
+  const incoming = incomingResult.data ?? [];
+  const outgoing = outgoingResult.data ?? [];
+  const taxonNames = await fetchTaxonNames(
+    supabase,
+    [...incoming, ...outgoing].flatMap((proposal) => [
+      asSnapshot(proposal.changes),
+      asSnapshot(proposal.base_data),
+      { taxon_id: proposal.species?.taxon_id },
+    ]),
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Suggested edits</h3>
+        <p className="text-sm text-muted-foreground">
+          Review changes other users suggest for your species, and follow the edits you have suggested.
+        </p>
+      </div>
+      <Separator />
+      {error ? (
+        <p>{error.message}</p>
+      ) : (
+        <>
+          <section className="space-y-3">
+            <h4 className="font-medium">Waiting for your review</h4>
+            <ProposalList proposals={incoming} taxonNames={[...taxonNames]} mode="review" />
+          </section>
+          <section className="space-y-3">
+            <h4 className="font-medium">Your suggestions</h4>
+            <ProposalList proposals={outgoing} taxonNames={[...taxonNames]} mode="own" />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { asSnapshot, formatSpeciesField, proposalFieldLabels, proposalFields } from "@/lib/species-fields";
+import { speciesPath } from "@/lib/species-url";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type Proposal = Database["public"]["Tables"]["species_edit_proposals"]["Row"] & {
+  species: Database["public"]["Tables"]["species"]["Row"] | null;
+  profiles: { display_name: string } | null;
+};
+
+const statusLabels: Record<string, string> = {
+  pending: "Waiting for review",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const statusClasses: Record<string, string> = {
+  pending: "text-muted-foreground",
+  accepted: "text-green-700 dark:text-green-400",
+  rejected: "text-destructive",
+};
+
+// "review" lists proposals for the user's species with accept/reject; "own" lists the user's proposals
+export default function ProposalList({
+  proposals,
+  taxonNames: taxonNameEntries,
+  mode,
+}: {
+  proposals: Proposal[];
+  taxonNames: [number, string][];
+  mode: "review" | "own";
+}) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<number | null>(null);
+  const taxonNames = new Map(taxonNameEntries);
+
+  const act = async (
+    proposal: Proposal,
+    action: () => PromiseLike<{ error: { message: string } | null }>,
+    success: { title: string; description: string },
+  ) => {
+    setBusy(proposal.id);
+    const { error } = await action();
+    setBusy(null);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast(success);
+    router.refresh();
+  };
+
+  const handleAccept = (proposal: Proposal) => {
+    const supabase = createBrowserSupabaseClient();
+    return act(proposal, () => supabase.rpc("accept_species_edit_proposal", { proposal: proposal.id }), {
+      title: "Edit accepted!",
+      description: `The suggested changes were applied to ${proposal.species?.scientific_name ?? "the species"}.`,
+    });
+  };
+
+  const handleReject = (proposal: Proposal) => {
+    const supabase = createBrowserSupabaseClient();
+    return act(
+      proposal,
+      () =>
+        supabase
+          .from("species_edit_proposals")
+          .update({ status: "rejected", reviewed_at: new Date().toISOString() })
+          .eq("id", proposal.id),
+      { title: "Edit rejected", description: "The species was left unchanged." },
+    );
+  };
+
+  const handleWithdraw = (proposal: Proposal) => {
+    const supabase = createBrowserSupabaseClient();
+    return act(proposal, () => supabase.from("species_edit_proposals").delete().eq("id", proposal.id), {
+      title: "Suggestion withdrawn",
+      description: "Your suggested edit was removed.",
+    });
+  };
+
+  if (proposals.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {mode === "review" ? "No suggested edits to review." : "You haven't suggested any edits yet."}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {proposals.map((proposal) => {
+        const changes = asSnapshot(proposal.changes);
+        const baseData = asSnapshot(proposal.base_data);
+        const current = proposal.species;
+        const fields = proposalFields.filter((field) => field in changes);
+        const pending = proposal.status === "pending";
+
+        return (
+          <li key={proposal.id} className="rounded border p-3 text-sm">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p>
+                  {current ? (
+                    <Link href={speciesPath(current)} className="font-medium italic hover:underline">
+                      {current.scientific_name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">Deleted species</span>
+                  )}
+                  {mode === "review" && <> · suggested by {proposal.profiles?.display_name ?? "an unknown user"}</>}
+                </p>
+                <p className="text-muted-foreground">
+                  {new Date(proposal.created_at).toLocaleString()}
+                  {mode === "own" && (
+                    <>
+                      {" · "}
+                      <span className={statusClasses[proposal.status]}>
+                        {statusLabels[proposal.status] ?? proposal.status}
+                      </span>
+                    </>
+                  )}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {mode === "review" && (
+                  <>
+                    <Button size="sm" onClick={() => void handleAccept(proposal)} disabled={busy !== null}>
+                      {busy === proposal.id ? "Saving..." : "Accept"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => void handleReject(proposal)}
+                      disabled={busy !== null}
+                    >
+                      Reject
+                    </Button>
+                  </>
+                )}
+                {mode === "own" && pending && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => void handleWithdraw(proposal)}
+                    disabled={busy !== null}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {proposal.comment && <p className="mt-2 whitespace-pre-wrap border-l-2 pl-2">{proposal.comment}</p>}
+
+            <dl className="mt-2 space-y-1">
+              {fields.map((field) => {
+                // Pending proposals are compared with the species as it is now, reviewed ones with what they replaced.
+                // The species only has the lineage as a taxon id, so proposed lineages show what they replaced.
+                const live = pending && current && field !== "taxonomy";
+                const before = live ? current[field] : baseData[field];
+                const changedSince = live && (current[field] ?? null) !== (baseData[field] ?? null);
+
+                return (
+                  <div key={field}>
+                    <dt className="text-muted-foreground">{proposalFieldLabels[field]}</dt>
+                    <dd className="whitespace-pre-wrap break-words">
+                      <del className="text-destructive">{formatSpeciesField(field, before, taxonNames)}</del>
+                      {" → "}
+                      <ins className="text-green-700 no-underline dark:text-green-400">
+                        {formatSpeciesField(field, changes[field], taxonNames)}
+                      </ins>
+                      {changedSince && (
+                        <span className="block text-xs text-amber-700 dark:text-amber-400">
+                          Changed since this edit was suggested (was{" "}
+                          {formatSpeciesField(field, baseData[field], taxonNames)}).
+                        </span>
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
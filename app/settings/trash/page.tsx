@@ -0,0 +1,49 @@
+import { Separator } from "@/components/ui/separator";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import TrashList from "./trash-list";
+
+export default async function TrashSettings() {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  const [speciesResult, retentionResult] = await Promise.all([
+    supabase
+      .from("species")
+      .select()
+      .eq("author", session.user.id)
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false }),
+    supabase.from("app_settings").select("value").eq("key", "species_trash_retention_days").maybeSingle(),
+  ]);
+
+  // Without a retention setting the nightly purge leaves the trash alone
+  const retention = retentionResult.data?.value;
+  const retentionDays = typeof retention === "number" ? retention : null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Trash</h3>
+        <p className="text-sm text-muted-foreground">
+          Species you delete are kept here
+          {retentionDays !== null ? ` for ${retentionDays} days before they are permanently deleted` : ""}. Restore them
+          to put them back in the species list.
+        </p>
+      </div>
+      <Separator />
+      {speciesResult.error ? (
+        <p>{speciesResult.error.message}</p>
+      ) : (
+        <TrashList species={speciesResult.data} userId={session.user.id} retentionDays={retentionDays} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashList({
+  species,
+  userId,
+  retentionDays,
+}: {
+  species: Species[];
+  userId: string;
+  retentionDays: number | null;
+}) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<number | null>(null);
+  const [purging, setPurging] = useState<Species | null>(null);
+
+  const handleRestore = async (s: Species) => {
+    setBusy(s.id);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("species").update({ deleted_at: null }).eq("id", s.id).eq("author", userId);
+    setBusy(null);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Species Restored", description: `${s.scientific_name} is back in the species list.` });
+    router.refresh();
+  };
+
+  const handlePurge = async (s: Species) => {
+    setBusy(s.id);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("species").delete().eq("id", s.id).eq("author", userId);
+    setBusy(null);
+    setPurging(null);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Species Deleted", description: `${s.scientific_name} has been permanently deleted.` });
+    router.refresh();
+  };
+
+  if (species.length === 0) {
+    return <p className="text-sm text-muted-foreground">The trash is empty.</p>;
+  }
+
+  return (
+    <>
+      <ul className="divide-y rounded border">
+        {species.map((s) => {
+          const deletedAt = new Date(s.deleted_at ?? 0);
+          const purgeOn = retentionDays !== null ? new Date(deletedAt.getTime() + retentionDays * DAY_MS) : null;
+
+          return (
+            <li key={s.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <div>
+                <p className="font-medium">{s.scientific_name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {s.common_name && <span className="italic">{s.common_name} · </span>}
+                  Deleted {deletedAt.toLocaleDateString()}
+                  {purgeOn && ` · permanently deleted after ${purgeOn.toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => void handleRestore(s)} disabled={busy !== null}>
+                  {busy === s.id && !purging ? "Restoring..." : "Restore"}
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => setPurging(s)} disabled={busy !== null}>
+                  Delete permanently
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <Dialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirm Permanent Deletion</DialogTitle>
+          </DialogHeader>
+          <p>
+            Are you sure you want to permanently delete &quot;{purging?.scientific_name}&quot;? This action cannot be
+            undone.
+          </p>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setPurging(null)} disabled={busy !== null}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => purging && void handlePurge(purging)} disabled={busy !== null}>
+              {busy !== null ? "Deleting..." : "Delete permanently"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
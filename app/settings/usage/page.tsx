@@ -0,0 +1,94 @@
+import { Separator } from "@/components/ui/separator";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { CHAT_RATE_LIMITS, fetchChatQuota, usageTotal } from "@/lib/services/chat-usage";
+import { redirect } from "next/navigation";
+
+const USAGE_DAYS = 30;
+
+export default async function UsageSettings() {
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  const [quota, days] = await Promise.all([
+    fetchChatQuota(supabase),
+    supabase.rpc("chat_usage_by_day", { days: USAGE_DAYS }),
+  ]);
+  // A zero allowance is used up from the start
+  const percentUsed = quota.data?.limit ? Math.min(100, (quota.data.used / quota.data.limit) * 100) : 100;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Usage</h3>
+        <p className="text-sm text-muted-foreground">
+          Tokens the species chatbot used answering you. Each day&apos;s allowance resets at midnight UTC, and you can
+          send up to {CHAT_RATE_LIMITS.user.maxHits} messages a minute.
+        </p>
+      </div>
+      <Separator />
+      {quota.error !== null ? (
+        <p>{quota.error}</p>
+      ) : days.error ? (
+        <p>{days.error.message}</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Today</p>
+            {quota.data.limit === null ? (
+              <p className="text-sm">{quota.data.used.toLocaleString()} tokens, with no daily limit.</p>
+            ) : (
+              <>
+                <p className="text-sm">
+                  {quota.data.used.toLocaleString()} of {quota.data.limit.toLocaleString()} tokens
+                </p>
+                <div className="h-2 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={`h-full ${quota.data.used >= quota.data.limit ? "bg-destructive" : "bg-primary"}`}
+                    style={{ width: `${percentUsed}%` }}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Last {USAGE_DAYS} days</p>
+            {days.data.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal">Day (UTC)</th>
+                    <th className="font-normal">Messages</th>
+                    <th className="font-normal">Prompt tokens</th>
+                    <th className="font-normal">Reply tokens</th>
+                    <th className="font-normal">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.data.map((day) => (
+                    <tr key={day.day} className="border-t">
+                      <td className="py-1">{day.day}</td>
+                      <td className="py-1">{day.requests.toLocaleString()}</td>
+                      <td className="py-1">{day.prompt_tokens.toLocaleString()}</td>
+                      <td className="py-1">{day.completion_tokens.toLocaleString()}</td>
+                      <td className="py-1">{usageTotal(day).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground">You haven&apos;t used the chatbot yet.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import { MAX_CHAT_TITLE_CHARS, chatTitleSchema } from "@/lib/chat";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type ChatSession = Database["public"]["Tables"]["chat_sessions"]["Row"];
+
+// The user's past chats, most recently used first; picking one resumes it
+export default function ChatSessionList({ sessions, activeId }: { sessions: ChatSession[]; activeId: number | null }) {
+  const router = useRouter();
+  const [renaming, setRenaming] = useState<ChatSession | null>(null);
+  const [title, setTitle] = useState("");
+  const [deleting, setDeleting] = useState<ChatSession | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const parsed = chatTitleSchema.safeParse(title);
+    if (!parsed.success) {
+      toast({
+        title: "Could not rename chat.",
+        description: `Titles must be 1 to ${MAX_CHAT_TITLE_CHARS} characters.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("chat_sessions").update({ title: parsed.data }).eq("id", renaming.id);
+    setBusy(false);
+
+    if (error) {
+      toast({ title: "Could not rename chat.", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRenaming(null);
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setBusy(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("chat_sessions").delete().eq("id", deleting.id);
+    setBusy(false);
+
+    if (error) {
+      toast({ title: "Could not delete chat.", description: error.message, variant: "destructive" });
+      return;
+    }
+    setDeleting(null);
+    // Deleting the open chat leaves nothing to show, so start a new one
+    if (deleting.id === activeId) router.replace("/species-chatbot");
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button asChild variant="outline" className="w-full">
+        <Link href="/species-chatbot">New chat</Link>
+      </Button>
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Your chats will be listed here.</p>
+      ) : (
+        <ul className="space-y-1">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={cn("group rounded p-2 text-sm hover:bg-muted", session.id === activeId && "bg-muted")}
+            >
+              <Link href={`/species-chatbot?chat=${session.id}`} className="block truncate font-medium">
+                {session.title}
+              </Link>
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>{new Date(session.updated_at).toLocaleDateString()}</span>
+                <span className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => {
+                      setRenaming(session);
+                      setTitle(session.title);
+                    }}
+                  >
+                    Rename
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setDeleting(session)}>
+                    Delete
+                  </Button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename chat</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleRename();
+            }}
+          >
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={MAX_CHAT_TITLE_CHARS}
+              aria-label="Chat title"
+            />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="secondary" onClick={() => setRenaming(null)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={busy}>
+                {busy ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete chat</DialogTitle>
+            <DialogDescription>
+              &quot;{deleting?.title}&quot; and all of its messages will be permanently deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setDeleting(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => void handleDelete()} disabled={busy}>
+              {busy ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
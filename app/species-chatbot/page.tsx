@@ -1,110 +1,63 @@
-"use client";
+import { fetchRole } from "@/lib/roles";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import ChatSessionList from "./chat-session-list";
+import SpeciesChatbot from "./species-chatbot";
 
-import { TypographyH2, TypographyP } from "@/components/ui/typography";
-import { useRef, useState } from "react";
-import ReactMarkdown from "react-markdown";
-
-interface ChatMsg {
-  role: "user" | "bot";
-  content: string;
+interface SpeciesChatbotPageProps {
+  searchParams: { chat?: string };
 }
 
-export default function SpeciesChatbot() {
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const [message, setMessage] = useState("");
-  const [chatLog, setChatLog] = useState<ChatMsg[]>([]);
-  const [busy, setBusy] = useState(false);
+export default async function SpeciesChatbotPage({ searchParams }: SpeciesChatbotPageProps) {
+  // Create supabase server component client and obtain user session from stored cookie
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
 
-  const handleInput = () => {
-    const textarea = textareaRef.current;
-    if (textarea) {
-      textarea.style.height = "auto";
-      textarea.style.height = `${textarea.scrollHeight}px`;
-    }
-  };
+  const [{ data: sessions, error }, role] = await Promise.all([
+    supabase.from("chat_sessions").select().eq("user_id", session.user.id).order("updated_at", { ascending: false }),
+    fetchRole(supabase, session.user.id),
+  ]);
 
-  const handleSubmit = async () => {
-    const text = message.trim();
-    if (!text || busy) return;
-    setBusy(true);
-    setChatLog((prev) => [...prev, { role: "user", content: text }]);
-    setMessage("");
+  // ?chat=<id> resumes a past conversation; without it the page starts a new one
+  const chatId = Number(searchParams.chat);
+  const activeSession = sessions?.find((s) => s.id === chatId) ?? null;
+  if (searchParams.chat && !activeSession && !error) {
+    redirect("/species-chatbot");
+  }
 
-    try {
-      const res = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: text }),
-      });
-      const data = (await res.json()) as { response?: string; error?: string };
-      const bot = data.response ?? data.error ?? "Sorry—my provider returned an error. Please try again.";
-      setChatLog((prev) => [...prev, { role: "bot", content: bot }]);
-    } catch {
-      setChatLog((prev) => [...prev, { role: "bot", content: "Network error. Please try again." }]);
-    } finally {
-      setBusy(false);
-    }
-  };
+  const { data: messages } = activeSession
+    ? await supabase.from("chat_messages").select().eq("session_id", activeSession.id).order("id")
+    : { data: [] };
 
   return (
-    <>
-      <TypographyH2>Species Chatbot</TypographyH2>
-      <div className="mt-4 flex gap-4">
-        <div className="mt-4 rounded-lg bg-foreground p-4 text-background">
-          <TypographyP>
-            The Species Chatbot is specialized to answer questions about animals. Ask about habitat, diet, conservation
-            status, and other details. Unrelated prompts will get a reminder that it’s species-only.
-          </TypographyP>
-          <TypographyP>Type your question below and press Enter.</TypographyP>
-        </div>
-      </div>
-      <div className="mx-auto mt-6">
-        <div className="h-[400px] space-y-3 overflow-y-auto rounded-lg border border-border bg-muted p-4">
-          {chatLog.length === 0 ? (
-            <p className="text-sm text-muted-foreground">Start chatting about a species!</p>
-          ) : (
-            chatLog.map((msg, index) => (
-              <div key={index} className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
-                <div
-                  className={`max-w-[75%] whitespace-pre-wrap rounded-2xl p-3 text-sm ${
-                    msg.role === "user"
-                      ? "rounded-br-none bg-primary text-primary-foreground"
-                      : "rounded-bl-none border border-border bg-foreground text-primary-foreground"
-                  }`}
-                >
-                  <ReactMarkdown>{msg.content}</ReactMarkdown>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-        <div className="mt-4 flex flex-col items-end">
-          <textarea
-            ref={textareaRef}
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            onInput={handleInput}
-            rows={1}
-            placeholder="Ask about a species..."
-            className="w-full resize-none overflow-hidden rounded border border-border bg-background p-2 text-sm text-foreground focus:outline-none"
-            disabled={busy}
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                void handleSubmit();
-              }
-            }}
-          />
-          <button
-            type="button"
-            onClick={() => void handleSubmit()}
-            className="mt-2 rounded bg-primary px-4 py-2 text-background transition hover:opacity-90 disabled:opacity-50"
-            disabled={busy}
-          >
-            {busy ? "Thinking..." : "Enter"}
-          </button>
-        </div>
+    <div className="flex flex-col gap-6 lg:flex-row">
+      <aside className="lg:w-1/4">
+        {error ? (
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+        ) : (
+          <ChatSessionList sessions={sessions ?? []} activeId={activeSession?.id ?? null} />
+        )}
+      </aside>
+      <div className="flex-1">
+        {/* Remount for each chat so its messages replace the previous one's */}
+        <SpeciesChatbot
+          key={activeSession?.id ?? "new"}
+          sessionId={activeSession?.id ?? null}
+          initialMessages={(messages ?? []).map((m) => ({
+            role: m.role === "assistant" ? "bot" : "user",
+            content: m.content,
+          }))}
+          userId={session.user.id}
+          role={role}
+        />
       </div>
-    </>
+    </div>
   );
 }
@@ -0,0 +1,200 @@
+"use client";
+
+import { TypographyH2, TypographyP } from "@/components/ui/typography";
+import { CHAT_SESSION_HEADER, SPECIES_DRAFT_LANGUAGE, SPECIES_REFS_LANGUAGE, parseSpeciesDraft } from "@/lib/chat";
+import type { Role } from "@/lib/roles";
+import { useRouter } from "next/navigation";
+import { useMemo, useRef, useState } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import SpeciesDraftCard from "./species-draft-card";
+import SpeciesRefsCards from "./species-refs-cards";
+
+export interface ChatMsg {
+  role: "user" | "bot";
+  content: string;
+}
+
+// A single conversation. /api/chat stores each turn and loads the earlier ones as context for follow-ups.
+export default function SpeciesChatbot({
+  sessionId,
+  initialMessages,
+  userId,
+  role,
+}: {
+  sessionId: number | null;
+  initialMessages: ChatMsg[];
+  userId: string;
+  role: Role | null;
+}) {
+  const router = useRouter();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [message, setMessage] = useState("");
+  const [chatLog, setChatLog] = useState<ChatMsg[]>(initialMessages);
+  const [busy, setBusy] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set by the first reply of a new chat, so the next question continues it
+  const [chatId, setChatId] = useState(sessionId);
+
+  const handleInput = () => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.style.height = "auto";
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  };
+
+  // Appends streamed text to the bot reply that is being written, the last message in the log
+  const appendToReply = (text: string) => {
+    setChatLog((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== "bot") return [...prev, { role: "bot", content: text }];
+      return [...prev.slice(0, -1), { ...last, content: last.content + text }];
+    });
+  };
+
+  const handleSubmit = async () => {
+    const text = message.trim();
+    if (!text || busy) return;
+    setBusy(true);
+    setChatLog((prev) => [...prev, { role: "user", content: text }, { role: "bot", content: "" }]);
+    setMessage("");
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const res = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: chatId ?? undefined, message: text }),
+        signal: controller.signal,
+      });
+
+      // Errors come back as JSON; replies are streamed as plain text
+      if (!res.ok || !res.body) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        appendToReply(data.error ?? "Sorry—my provider returned an error. Please try again.");
+        return;
+      }
+
+      const savedTo = Number(res.headers.get(CHAT_SESSION_HEADER)) || null;
+      if (savedTo) setChatId(savedTo);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        appendToReply(decoder.decode(value, { stream: true }));
+      }
+
+      // The reply is saved by the time the stream ends; open a new chat at its own URL, and refresh the chat list
+      if (savedTo && savedTo !== sessionId) router.replace(`/species-chatbot?chat=${savedTo}`);
+      else router.refresh();
+    } catch {
+      appendToReply(controller.signal.aborted ? "\n\n_Stopped._" : "Network error. Please try again.");
+      // A stopped reply is still saved, and may have started a chat the list doesn't show yet
+      if (controller.signal.aborted) router.refresh();
+    } finally {
+      abortRef.current = null;
+      setBusy(false);
+    }
+  };
+
+  // Aborting the request also makes the server cancel the upstream completion
+  const handleStop = () => abortRef.current?.abort();
+
+  // Draft and species blocks become cards; a block that is still streaming isn't valid JSON yet. Memoized because new
+  // components would remount the cards, closing any dialog they have open, on every streamed chunk or keystroke.
+  const markdownComponents = useMemo<Components>(
+    () => ({
+      code: ({ className, children }) => {
+        if (className === `language-${SPECIES_REFS_LANGUAGE}`) {
+          return <SpeciesRefsCards block={String(children)} userId={userId} role={role} />;
+        }
+        if (className !== `language-${SPECIES_DRAFT_LANGUAGE}`) return <code className={className}>{children}</code>;
+        const draft = parseSpeciesDraft(String(children));
+        return draft ? (
+          <SpeciesDraftCard draft={draft} userId={userId} role={role} />
+        ) : (
+          <span className="opacity-70">Drafting a species record...</span>
+        );
+      },
+    }),
+    [userId, role],
+  );
+
+  return (
+    <>
+      <TypographyH2>Species Chatbot</TypographyH2>
+      <div className="mt-4 flex gap-4">
+        <div className="mt-4 rounded-lg bg-foreground p-4 text-background">
+          <TypographyP>
+            The Species Chatbot is specialized to answer questions about animals. Ask about habitat, diet, conservation
+            status, and other details. Unrelated prompts will get a reminder that it’s species-only.
+          </TypographyP>
+          <TypographyP>Type your question below and press Enter.</TypographyP>
+        </div>
+      </div>
+      <div className="mx-auto mt-6">
+        <div className="h-[400px] space-y-3 overflow-y-auto rounded-lg border border-border bg-muted p-4">
+          {chatLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Start chatting about a species!</p>
+          ) : (
+            chatLog.map((msg, index) => (
+              <div key={index} className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                <div
+                  className={`max-w-[75%] whitespace-pre-wrap rounded-2xl p-3 text-sm ${
+                    msg.role === "user"
+                      ? "rounded-br-none bg-primary text-primary-foreground"
+                      : "rounded-bl-none border border-border bg-foreground text-primary-foreground"
+                  }`}
+                >
+                  {msg.content ? (
+                    <ReactMarkdown components={markdownComponents}>{msg.content}</ReactMarkdown>
+                  ) : (
+                    <span className="opacity-70">Thinking...</span>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+        <div className="mt-4 flex flex-col items-end">
+          <textarea
+            ref={textareaRef}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onInput={handleInput}
+            rows={1}
+            placeholder="Ask about a species..."
+            className="w-full resize-none overflow-hidden rounded border border-border bg-background p-2 text-sm text-foreground focus:outline-none"
+            disabled={busy}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                void handleSubmit();
+              }
+            }}
+          />
+          {busy ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="mt-2 rounded border border-border px-4 py-2 text-foreground transition hover:opacity-90"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => void handleSubmit()}
+              className="mt-2 rounded bg-primary px-4 py-2 text-background transition hover:opacity-90 disabled:opacity-50"
+            >
+              Enter
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { iucnLabels } from "@/lib/conservation";
+import { hasRole, type Role } from "@/lib/roles";
+import type { SpeciesDraft } from "@/lib/species-schema";
+import AddSpeciesDialog from "../species/add-species-dialog";
+
+// A species record drafted by SpeciesBot; nothing is saved until the user reviews it in the add species dialog
+export default function SpeciesDraftCard({
+  draft,
+  userId,
+  role,
+}: {
+  draft: SpeciesDraft;
+  userId: string;
+  role: Role | null;
+}) {
+  return (
+    <div className="my-2 whitespace-normal rounded-lg border border-border bg-background p-3 font-sans text-foreground">
+      <p className="text-xs uppercase text-muted-foreground">Draft species</p>
+      <p className="font-medium">
+        <span className="italic">{draft.scientific_name}</span>
+        {draft.common_name && ` (${draft.common_name})`}
+      </p>
+      <p className="text-sm text-muted-foreground">
+        {draft.kingdom}
+        {draft.iucn_status && ` · ${iucnLabels[draft.iucn_status]}`}
+        {draft.total_population && ` · population ${draft.total_population.toLocaleString()}`}
+      </p>
+      {hasRole(role, "contributor") ? (
+        <AddSpeciesDialog
+          userId={userId}
+          draft={draft}
+          trigger={
+            <Button size="sm" variant="secondary" className="mt-2">
+              Review and add
+            </Button>
+          }
+        />
+      ) : (
+        <p className="mt-2 text-sm text-muted-foreground">Your role doesn&apos;t allow adding species.</p>
+      )}
+    </div>
+  );
+}
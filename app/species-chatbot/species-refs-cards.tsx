@@ -0,0 +1,126 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { parseSpeciesRefs, type SpeciesRefs } from "@/lib/chat";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { hasRole, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { speciesThumbnail } from "@/lib/species-images";
+import { speciesPath } from "@/lib/species-url";
+import Image from "next/image";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import AddSpeciesDialog from "../species/add-species-dialog";
+import ConservationBadge from "../species/conservation-badge";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type NamedSpecies = SpeciesRefs["names"][number];
+
+// Cards for the species a reply talks about (see SPECIES_REFS_LANGUAGE). `block` is the JSON text of the refs block.
+export default function SpeciesRefsCards({
+  block,
+  userId,
+  role,
+}: {
+  block: string;
+  userId: string;
+  role: Role | null;
+}) {
+  const [species, setSpecies] = useState<Species[]>([]);
+  const [missing, setMissing] = useState<NamedSpecies[]>([]);
+
+  // Names are looked up now rather than when the reply was written, so species added since then get a card
+  const load = useCallback(async () => {
+    const refs = parseSpeciesRefs(block);
+    if (!refs) return;
+    const supabase = createBrowserSupabaseClient();
+    const lookups = await Promise.all(
+      refs.names.map((name) => supabase.rpc("find_similar_species", { candidate: name.scientific_name })),
+    );
+
+    const ids = new Set(refs.ids);
+    const notInCatalog: NamedSpecies[] = [];
+    refs.names.forEach((name, i) => {
+      const lookup = lookups[i];
+      // A failed lookup shows nothing rather than offering to add a species we may have
+      if (!lookup || lookup.error) return;
+      // A merely similar name is a different species; the add dialog warns about it
+      const match = lookup.data.find((m) => m.match_type !== "similar");
+      if (!match) notInCatalog.push(name);
+      // Trashed species keep their names, so they can't be added again
+      else if (!match.in_trash) ids.add(match.id);
+    });
+
+    const { data } =
+      ids.size > 0
+        ? await supabase
+            .from("species")
+            .select()
+            .in("id", [...ids])
+            .is("deleted_at", null)
+        : { data: [] };
+    setSpecies(data ?? []);
+    setMissing(notInCatalog);
+  }, [block]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  if (species.length === 0 && missing.length === 0) return null;
+
+  return (
+    <div className="my-2 space-y-2 whitespace-normal font-sans">
+      {species.map((s) => (
+        <Link
+          key={s.id}
+          href={speciesPath(s)}
+          className="flex items-center gap-3 rounded-lg border border-border bg-background p-2 text-foreground transition hover:bg-muted"
+        >
+          {s.image && (
+            <div className="relative h-12 w-12 flex-none overflow-hidden rounded">
+              <Image src={speciesThumbnail(s.image)} alt={s.scientific_name} fill style={{ objectFit: "cover" }} />
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium italic">{s.scientific_name}</p>
+            <p className="truncate text-xs text-muted-foreground">
+              {[
+                s.common_name,
+                s.kingdom,
+                s.total_population !== null && `population ${s.total_population.toLocaleString()}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+          {s.iucn_status && <ConservationBadge status={s.iucn_status} className="flex-none" />}
+        </Link>
+      ))}
+      {missing.map((name) => (
+        <div
+          key={name.scientific_name}
+          className="flex items-center gap-3 rounded-lg border border-dashed border-border bg-background p-2 text-foreground"
+        >
+          <p className="min-w-0 flex-1 text-sm">
+            <span className="italic">{name.scientific_name}</span>
+            {name.common_name && ` (${name.common_name})`} isn&apos;t in our catalog yet.
+          </p>
+          {hasRole(role, "contributor") && (
+            // The dialog's Wikipedia search is ready to fill in the rest
+            <AddSpeciesDialog
+              userId={userId}
+              draft={{ scientific_name: name.scientific_name, common_name: name.common_name, kingdom: name.kingdom }}
+              onSpeciesAdded={load}
+              trigger={
+                <Button size="sm" variant="secondary">
+                  Add this species
+                </Button>
+              }
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { canManageSpecies, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { cn } from "@/lib/utils";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Candidate = Database["public"]["Functions"]["find_similar_species"]["Returns"][number];
+
+// Wait for the user to stop typing before looking up the name
+const LOOKUP_DEBOUNCE_MS = 300;
+
+// Merges a duplicate record into this species; merge_species in setup.sql moves its data over and keeps its history
+export default function MergeSpeciesDialog({
+  species,
+  userId,
+  role,
+}: {
+  species: Species;
+  userId: string;
+  role: Role | null;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+  const [selected, setSelected] = useState<Candidate | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  // Start with likely duplicates of this species; searching looks up other names the same way
+  const lookup = search.trim() || species.scientific_name;
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      const supabase = createBrowserSupabaseClient();
+      void supabase.rpc("find_similar_species", { candidate: lookup }).then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          toast({ title: "Could not look up species.", description: error.message, variant: "destructive" });
+          return;
+        }
+        setCandidates(data.filter((candidate) => candidate.id !== species.id));
+      });
+    }, LOOKUP_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, lookup, species.id]);
+
+  if (!canManageSpecies(userId, role, species)) return null;
+
+  const handleMerge = async () => {
+    if (!selected) return;
+    setMerging(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.rpc("merge_species", { duplicate: selected.id, kept: species.id });
+    setMerging(false);
+
+    if (error) {
+      toast({ title: "Could not merge species.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Species merged!",
+      description: `${selected.scientific_name} was merged into ${species.scientific_name}.`,
+    });
+    setOpen(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(v) => {
+        setOpen(v);
+        if (!v) {
+          setSearch("");
+          setSelected(null);
+          setCandidates(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">Merge duplicate</Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-screen overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge a duplicate into {species.scientific_name}</DialogTitle>
+          <DialogDescription>
+            The duplicate is deleted and its name becomes a synonym. Its assessments, images, synonyms and change
+            history move to this species, and fields that are blank here are filled from it.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search for another name"
+          aria-label="Search for a duplicate"
+        />
+        {candidates === null ? (
+          <p className="text-sm text-muted-foreground">Looking for similar species...</p>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No similar species found.</p>
+        ) : (
+          <ul className="divide-y rounded border text-sm">
+            {candidates.map((candidate) => (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(candidate)}
+                  className={cn("w-full p-2 text-left hover:bg-muted", selected?.id === candidate.id && "bg-muted")}
+                >
+                  <span className="italic">{candidate.scientific_name}</span>
+                  {candidate.common_name && ` (${candidate.common_name})`}
+                  {candidate.in_trash && <span className="text-muted-foreground"> · in the trash</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => setOpen(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleMerge()} disabled={!selected || merging}>
+            {merging ? "Merging..." : selected ? `Merge ${selected.scientific_name}` : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { TypographyH2, TypographyH3, TypographyP } from "@/components/ui/typography";
+import { env } from "@/env.mjs";
+import { iucnLabels } from "@/lib/conservation";
+import { canManageSpecies, fetchRole } from "@/lib/roles";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { fetchRelatedSpecies, fetchSpeciesDetail } from "@/lib/services/species-detail";
+import { parseSpeciesParam, speciesPath } from "@/lib/species-url";
+import { fetchTaxonomy, lineageRanks, rankLabels } from "@/lib/taxonomy";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, permanentRedirect } from "next/navigation";
+import ConservationBadge from "../conservation-badge";
+import ConservationHistory from "../conservation-history";
+import SpeciesActions from "./species-actions";
+import SpeciesGallery from "./species-gallery";
+import SpeciesHistorySection from "./species-history-section";
+import SpeciesSynonyms from "./species-synonyms";
+
+interface SpeciesPageProps {
+  params: { id: string };
+}
+
+export async function generateMetadata({ params }: SpeciesPageProps): Promise<Metadata> {
+  const id = parseSpeciesParam(params.id);
+  const { data: species } = id === null ? { data: null } : await fetchSpeciesDetail(id);
+  if (!species) return { title: "Species not found" };
+
+  const title = species.common_name ? `${species.scientific_name} (${species.common_name})` : species.scientific_name;
+  // A blank description gets the fallback too
+  const excerpt = species.description?.slice(0, 200).trim();
+  const description = excerpt
+    ? excerpt
+    : `${species.scientific_name} on T4SG Biodiversity Hub${
+        species.iucn_status ? ` · ${iucnLabels[species.iucn_status]}` : ""
+      }`;
+
+  return {
+    // Link previews need absolute URLs
+    metadataBase: new URL(env.SITE_URL),
+    title,
+    description,
+    alternates: { canonical: speciesPath(species) },
+    openGraph: {
+      type: "article",
+      siteName: "T4SG Biodiversity Hub",
+      url: speciesPath(species),
+      title,
+      description,
+      images: species.image ? [{ url: species.image, alt: species.scientific_name }] : undefined,
+    },
+    twitter: {
+      card: species.image ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: species.image ? [species.image] : undefined,
+    },
+  };
+}
+
+// Unlike the species list, this page is public so shared links work for people who aren't signed in
+export default async function SpeciesDetailPage({ params }: SpeciesPageProps) {
+  const id = parseSpeciesParam(params.id);
+  if (id === null) notFound();
+
+  const { data: species, error } = await fetchSpeciesDetail(id);
+  if (error) {
+    return <TypographyP>{error}</TypographyP>;
+  }
+  if (!species) notFound();
+
+  // Old or hand-typed slugs redirect to the current one, so every species has a single canonical URL
+  const canonicalPath = speciesPath(species);
+  if (`/species/${decodeURIComponent(params.id)}` !== canonicalPath) permanentRedirect(canonicalPath);
+
+  const supabase = createServerSupabaseClient();
+  const [
+    {
+      data: { session },
+    },
+    { data: taxonomy },
+    related,
+    { data: images },
+    { data: synonyms },
+  ] = await Promise.all([
+    supabase.auth.getSession(),
+    fetchTaxonomy(supabase, species.taxon_id),
+    fetchRelatedSpecies(supabase, species),
+    supabase
+      .from("species_images")
+      .select()
+      .eq("species_id", species.id)
+      .order("is_primary", { ascending: false })
+      .order("created_at"),
+    supabase.from("species_synonyms").select().eq("species_id", species.id).order("name"),
+  ]);
+  const userId = session?.user.id;
+  const role = userId ? await fetchRole(supabase, userId) : null;
+  const { profiles: author, ...record } = species;
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <TypographyH2 className="italic">{species.scientific_name}</TypographyH2>
+          {species.common_name && <p className="text-xl font-light">{species.common_name}</p>}
+          <ConservationBadge status={species.iucn_status} className="mt-2" />
+        </div>
+        <div className="flex gap-2">
+          {session && (
+            <Button variant="outline" asChild>
+              <Link href="/species">All species</Link>
+            </Button>
+          )}
+          {userId && <SpeciesActions species={record} userId={userId} role={role} />}
+        </div>
+      </div>
+
+      <SpeciesGallery species={record} images={images ?? []} userId={userId} role={role} />
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <div className="space-y-4 md:col-span-2">
+          <section>
+            <TypographyH3>Description</TypographyH3>
+            <TypographyP className="whitespace-pre-wrap">{species.description ?? "No description yet."}</TypographyP>
+          </section>
+          <section className="space-y-2">
+            <TypographyH3>Conservation</TypographyH3>
+            <p>
+              <strong>Total Population:</strong> {species.total_population?.toLocaleString() ?? "—"}
+            </p>
+            <ConservationHistory species={record} userId={userId} role={role} />
+          </section>
+        </div>
+
+        <aside className="space-y-4">
+          <section>
+            <TypographyH3>Taxonomy</TypographyH3>
+            <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">{rankLabels.kingdom}</dt>
+              <dd>{species.kingdom}</dd>
+              {lineageRanks.map((rank) => (
+                <div key={rank} className="contents">
+                  <dt className="text-muted-foreground">{rankLabels[rank]}</dt>
+                  <dd>{taxonomy?.[rank] ?? "—"}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+          {(!!synonyms?.length || canManageSpecies(userId, role, record)) && (
+            <section>
+              <TypographyH3>Synonyms</TypographyH3>
+              <SpeciesSynonyms species={record} synonyms={synonyms ?? []} userId={userId} role={role} />
+            </section>
+          )}
+          <section>
+            <TypographyH3>Added by</TypographyH3>
+            <p className="mt-2 font-medium">{author?.display_name ?? "Unknown"}</p>
+            {author?.biography && <p className="text-sm text-muted-foreground">{author.biography}</p>}
+          </section>
+        </aside>
+      </div>
+
+      {related.length > 0 && (
+        <section>
+          <TypographyH3>Related species</TypographyH3>
+          <ul className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {related.map((s) => (
+              <li key={s.id}>
+                <Link href={speciesPath(s)} className="block rounded border p-3 hover:bg-muted">
+                  <p className="font-medium italic">{s.scientific_name}</p>
+                  {s.common_name && <p className="text-sm text-muted-foreground">{s.common_name}</p>}
+                  {s.iucn_status && <ConservationBadge status={s.iucn_status} className="mt-1" />}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <Separator />
+      <section>
+        <TypographyH3>Change history</TypographyH3>
+        <div className="mt-2">
+          <SpeciesHistorySection species={record} userId={userId} role={role} />
+        </div>
+      </section>
+    </div>
+  );
+}
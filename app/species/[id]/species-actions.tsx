@@ -0,0 +1,31 @@
+"use client";
+
+import type { Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { useRouter } from "next/navigation";
+import DeleteSpeciesButton from "../delete";
+import EditSpeciesDialog from "../edit";
+import MergeSpeciesDialog from "./merge-species-dialog";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+// Merge, edit and delete controls for the detail page. Users who can't manage the species can at most suggest edits
+export default function SpeciesActions({
+  species,
+  userId,
+  role,
+}: {
+  species: Species;
+  userId: string;
+  role: Role | null;
+}) {
+  const router = useRouter();
+
+  return (
+    <div className="flex gap-2">
+      <MergeSpeciesDialog species={species} userId={userId} role={role} />
+      <EditSpeciesDialog userId={userId} role={role} species={species} onUpdated={() => router.refresh()} />
+      <DeleteSpeciesButton userId={userId} role={role} species={species} onDeleted={() => router.push("/species")} />
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { canManageSpecies, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { deleteSpeciesImage, speciesThumbnail, uploadSpeciesImage } from "@/lib/species-images";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useRef, useState } from "react";
+import { z } from "zod";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type SpeciesImage = Database["public"]["Tables"]["species_images"]["Row"];
+
+const creditFields = ["caption", "author", "license", "license_url", "source_url"] as const;
+type CreditField = (typeof creditFields)[number];
+
+const creditLabels: Record<CreditField, string> = {
+  caption: "Caption",
+  author: "Author",
+  license: "License",
+  license_url: "License URL",
+  source_url: "Source URL",
+};
+
+const optionalText = z
+  .string()
+  .max(500)
+  .transform((val) => (val.trim() === "" ? null : val.trim()));
+const optionalUrl = z.union([z.literal("").transform(() => null), z.string().trim().url()]);
+
+const creditSchema = z.object({
+  caption: optionalText,
+  author: optionalText,
+  license: optionalText,
+  license_url: optionalUrl,
+  source_url: optionalUrl,
+});
+
+function ImageCredit({ image }: { image: SpeciesImage }) {
+  if (!image.author && !image.license && !image.source_url) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      {image.author && <>Image by {image.author}</>}
+      {image.license && (
+        <>
+          {image.author ? ", " : ""}
+          {image.license_url ? (
+            <a href={image.license_url} target="_blank" rel="noreferrer" className="underline">
+              {image.license}
+            </a>
+          ) : (
+            image.license
+          )}
+        </>
+      )}
+      {image.source_url && (
+        <>
+          {image.author ?? image.license ? " · " : ""}
+          <a href={image.source_url} target="_blank" rel="noreferrer" className="underline">
+            Source
+          </a>
+        </>
+      )}
+    </p>
+  );
+}
+
+export default function SpeciesGallery({
+  species,
+  images,
+  userId,
+  role,
+}: {
+  species: Species;
+  images: SpeciesImage[];
+  userId?: string;
+  role?: Role | null;
+}) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [index, setIndex] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState<Record<CreditField, string> | null>(null);
+
+  const canManage = canManageSpecies(userId, role, species);
+  if (images.length === 0 && !canManage) return null;
+
+  const current = images[Math.min(index, images.length - 1)];
+  const step = (delta: number) => setIndex((i) => (i + delta + images.length) % images.length);
+
+  // Every change goes through Supabase and then re-renders the page, so species.image stays in sync via triggers.
+  // Removals go through the image route, which also deletes the stored files.
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>, failure: string) => {
+    setBusy(true);
+    const { error } = await action();
+    setBusy(false);
+    if (error) {
+      toast({ title: failure, description: error.message, variant: "destructive" });
+      return false;
+    }
+    router.refresh();
+    return true;
+  };
+
+  const handleAdd = async (file: File) => {
+    setBusy(true);
+    try {
+      const { image } = await uploadSpeciesImage(file);
+      const supabase = createBrowserSupabaseClient();
+      const added = await run(
+        () => supabase.from("species_images").insert({ species_id: species.id, url: image, added_by: userId }),
+        "Could not add image.",
+      );
+      if (added) setIndex(images.length);
+    } catch (err) {
+      toast({ title: "Could not upload image.", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveCredit = async () => {
+    if (!current || !editing) return;
+    const parsed = creditSchema.safeParse(editing);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      toast({
+        title: "Invalid image details",
+        description: `${creditLabels[issue?.path[0] as CreditField] ?? "Field"}: ${issue?.message ?? "invalid value"}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const supabase = createBrowserSupabaseClient();
+    const saved = await run(
+      () => supabase.from("species_images").update(parsed.data).eq("id", current.id),
+      "Could not save image details.",
+    );
+    if (saved) setEditing(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {current && (
+        <figure className="space-y-1">
+          <div className="relative h-80 w-full overflow-hidden rounded bg-muted">
+            <Image
+              src={current.url}
+              alt={current.caption ?? species.scientific_name}
+              fill
+              style={{ objectFit: "contain" }}
+              priority
+            />
+            {images.length > 1 && (
+              <>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="absolute left-2 top-1/2 -translate-y-1/2"
+                  onClick={() => step(-1)}
+                  aria-label="Previous image"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="absolute right-2 top-1/2 -translate-y-1/2"
+                  onClick={() => step(1)}
+                  aria-label="Next image"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+          <figcaption className="space-y-0.5">
+            {current.caption && <p className="text-sm">{current.caption}</p>}
+            <ImageCredit image={current} />
+          </figcaption>
+        </figure>
+      )}
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, i) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setIndex(i)}
+              className={cn(
+                "relative h-16 w-16 flex-none overflow-hidden rounded border-2",
+                image.id === current?.id ? "border-primary" : "border-transparent",
+              )}
+              aria-label={`Show image ${i + 1}`}
+            >
+              <Image src={speciesThumbnail(image.url)} alt="" fill style={{ objectFit: "cover" }} />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()} disabled={busy}>
+            {busy ? "Saving..." : "Add image"}
+          </Button>
+          {current && (
+            <>
+              {!current.is_primary && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => {
+                    const supabase = createBrowserSupabaseClient();
+                    void run(
+                      () => supabase.from("species").update({ image: current.url }).eq("id", species.id),
+                      "Could not set the primary image.",
+                    ).then((saved) => saved && setIndex(0));
+                  }}
+                >
+                  Set as primary
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                onClick={() =>
+                  setEditing(
+                    Object.fromEntries(creditFields.map((field) => [field, current[field] ?? ""])) as Record<
+                      CreditField,
+                      string
+                    >,
+                  )
+                }
+              >
+                Edit details
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={busy}
+                onClick={() => {
+                  void run(() => deleteSpeciesImage(current.id), "Could not remove image.").then(
+                    (removed) => removed && setIndex(0),
+                  );
+                }}
+              >
+                Remove
+              </Button>
+            </>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void handleAdd(file);
+            }}
+          />
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Image details</DialogTitle>
+            <DialogDescription>Credit the image&apos;s author and note its license.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="grid gap-3">
+              {creditFields.map((field) => (
+                <div key={field} className="grid gap-1">
+                  <Label htmlFor={`image-${field}`}>{creditLabels[field]}</Label>
+                  <Input
+                    id={`image-${field}`}
+                    value={editing[field]}
+                    onChange={(e) => setEditing({ ...editing, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setEditing(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleSaveCredit()} disabled={busy}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
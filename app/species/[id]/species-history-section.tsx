@@ -0,0 +1,21 @@
+"use client";
+
+import type { Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { useRouter } from "next/navigation";
+import SpeciesHistory from "../species-history";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+export default function SpeciesHistorySection({
+  species,
+  userId,
+  role,
+}: {
+  species: Species;
+  userId?: string;
+  role?: Role | null;
+}) {
+  const router = useRouter();
+  return <SpeciesHistory species={species} userId={userId} role={role} onReverted={() => router.refresh()} />;
+}
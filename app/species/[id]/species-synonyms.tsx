@@ -0,0 +1,106 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { canManageSpecies, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { normalizeScientificName } from "@/lib/scientific-name";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Synonym = Database["public"]["Tables"]["species_synonyms"]["Row"];
+
+// Alternate names of the species; those who can manage it can add and remove them
+export default function SpeciesSynonyms({
+  species,
+  synonyms,
+  userId,
+  role,
+}: {
+  species: Species;
+  synonyms: Synonym[];
+  userId?: string;
+  role?: Role | null;
+}) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const canManage = canManageSpecies(userId, role, species);
+
+  const handleAdd = async () => {
+    const normalized = normalizeScientificName(name);
+    if (!normalized) return;
+
+    setBusy(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase
+      .from("species_synonyms")
+      .insert({ species_id: species.id, name: normalized, added_by: userId });
+    setBusy(false);
+
+    if (error) {
+      toast({ title: "Could not add synonym.", description: error.message, variant: "destructive" });
+      return;
+    }
+    setName("");
+    router.refresh();
+  };
+
+  const handleRemove = async (synonym: Synonym) => {
+    setBusy(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("species_synonyms").delete().eq("id", synonym.id);
+    setBusy(false);
+
+    if (error) {
+      toast({ title: "Could not remove synonym.", description: error.message, variant: "destructive" });
+      return;
+    }
+    router.refresh();
+  };
+
+  if (synonyms.length === 0 && !canManage) return null;
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {synonyms.length === 0 ? (
+        <p className="text-muted-foreground">No synonyms recorded.</p>
+      ) : (
+        <ul className="space-y-1">
+          {synonyms.map((synonym) => (
+            <li key={synonym.id} className="flex items-center justify-between gap-2">
+              <span className="italic">{synonym.name}</span>
+              {canManage && (
+                <Button size="sm" variant="ghost" onClick={() => void handleRemove(synonym)} disabled={busy}>
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleAdd();
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Felis leo"
+            aria-label="New synonym"
+          />
+          <Button type="submit" size="sm" variant="secondary" disabled={busy || !normalizeScientificName(name)}>
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
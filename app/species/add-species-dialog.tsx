@@ -18,33 +18,20 @@ import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectVa
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "@/components/ui/use-toast";
 import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { iucnLabels, iucnStatusSchema, type IucnCategory } from "@/lib/conservation";
+import { kingdomSchema, speciesSchema, type SpeciesDraft, type SpeciesFormData } from "@/lib/species-schema";
+import { emptyTaxonomy, lineageRanks, rankLabels, saveTaxonomy, type LineageRank } from "@/lib/taxonomy";
+import { fetchWikidataTaxonomy } from "@/lib/wikidata";
+import { fetchWikimediaImageCredit, type ImageCredit } from "@/lib/wikimedia-commons";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useState, type BaseSyntheticEvent } from "react";
+import { useState, type BaseSyntheticEvent, type ReactNode } from "react";
 import { useForm } from "react-hook-form";
-import { z } from "zod";
-
-const kingdoms = z.enum(["Animalia", "Plantae", "Fungi", "Protista", "Archaea", "Bacteria"]);
-
-const speciesSchema = z.object({
-  scientific_name: z.string().trim().min(1).transform((val) => val.trim()),
-  common_name: z
-    .string()
-    .nullable()
-    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
-  kingdom: kingdoms,
-  total_population: z.number().int().positive().min(1).nullable(),
-  image: z
-    .string()
-    .url()
-    .nullable()
-    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
-  description: z
-    .string()
-    .nullable()
-    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
-});
-
-type FormData = z.infer<typeof speciesSchema>; // (Not an object literal; OK to keep as a type alias)
+import ConservationStatusField from "./conservation-status-field";
+import ImageUploadField from "./image-upload-field";
+import SimilarSpeciesWarning from "./similar-species-warning";
+import TaxonomyFields from "./taxonomy-fields";
+
+type FormData = SpeciesFormData;
 
 /** ---- Wikipedia/Wikidata response shapes (interfaces + Record to satisfy lint) ---- */
 
@@ -67,48 +54,99 @@ interface WikipediaSummaryResponse {
   wikibase_item?: string;
 }
 
-interface WikidataEntityResponse {
-  entities?: Record<
-    string,
-    {
-      claims?: {
-        P225?: { mainsnak?: { datavalue?: { value?: string } } }[];
-      };
-      labels?: Record<string, { value?: string }>;
-    }
-  >;
+/** ---------------------------------------------------------------------------------- */
+
+type AutofillField =
+  | "scientific_name"
+  | "common_name"
+  | "kingdom"
+  | "iucn_status"
+  | "description"
+  | "image"
+  | `taxonomy.${LineageRank}`;
+
+const autofillLabels: Record<AutofillField, string> = {
+  scientific_name: "Scientific Name",
+  common_name: "Common Name",
+  kingdom: "Kingdom",
+  iucn_status: "IUCN Status",
+  description: "Description",
+  image: "Image",
+  "taxonomy.phylum": rankLabels.phylum,
+  "taxonomy.class": rankLabels.class,
+  "taxonomy.order": rankLabels.order,
+  "taxonomy.family": rankLabels.family,
+  "taxonomy.genus": rankLabels.genus,
+};
+
+interface AutofillChange {
+  field: AutofillField;
+  current: string;
+  next: string;
 }
 
-/** ---------------------------------------------------------------------------------- */
+// What the Wikipedia search found, shown as a diff against the form until the user applies or discards it
+interface AutofillPreview {
+  changes: AutofillChange[];
+  // Attribution and license of the article's image, saved with the image when the species is added
+  imageCredit: ImageCredit | null;
+}
+
+function formatAutofillValue(field: AutofillField, value: string) {
+  if (field === "iucn_status" && value) return `${iucnLabels[value as IucnCategory]} (${value})`;
+  return value;
+}
 
 const defaultValues: Partial<FormData> = {
   scientific_name: "",
   common_name: null,
   kingdom: "Animalia",
+  iucn_status: null,
   total_population: null,
   image: null,
   description: null,
+  taxonomy: emptyTaxonomy,
 };
 
+// `draft` prefills the form and the Wikipedia search (e.g. with a record drafted by the chatbot; without a kingdom the
+// form's default stands), and `trigger` replaces the Add Species button
 export default function AddSpeciesDialog({
   userId,
   onSpeciesAdded,
+  draft,
+  trigger,
 }: {
   userId: string;
   onSpeciesAdded?: () => void | Promise<void>;
+  draft?: Omit<SpeciesDraft, "kingdom"> & Partial<Pick<SpeciesDraft, "kingdom">>;
+  trigger?: ReactNode;
 }) {
+  const initialValues: Partial<FormData> = draft
+    ? {
+        ...defaultValues,
+        ...draft,
+        kingdom: draft.kingdom ?? defaultValues.kingdom,
+        taxonomy: { ...emptyTaxonomy, ...draft.taxonomy },
+      }
+    : defaultValues;
   const [open, setOpen] = useState<boolean>(false);
-  const [wikipediaQuery, setWikipediaQuery] = useState<string>("");
+  const [wikipediaQuery, setWikipediaQuery] = useState<string>(draft?.scientific_name ?? "");
+  const [searching, setSearching] = useState<boolean>(false);
+  const [autofill, setAutofill] = useState<AutofillPreview | null>(null);
+  // Credit for the current image, if it came from the autofill; `url` tracks the image through rehosting
+  const [imageCredit, setImageCredit] = useState<{ url: string; credit: ImageCredit } | null>(null);
 
   const form = useForm<FormData>({
     resolver: zodResolver(speciesSchema),
-    defaultValues,
+    defaultValues: initialValues,
     mode: "onChange",
   });
 
   const resetForm = () => {
-    form.reset(defaultValues);
-    setWikipediaQuery("");
+    form.reset(initialValues);
+    setWikipediaQuery(draft?.scientific_name ?? "");
+    setAutofill(null);
+    setImageCredit(null);
   };
 
   const handleWikipediaSearch = async (): Promise<void> => {
@@ -117,11 +155,12 @@ export default function AddSpeciesDialog({
       return;
     }
 
+    setSearching(true);
     try {
       const searchRes = await fetch(
         `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(
-          wikipediaQuery
-        )}&format=json&origin=*`
+          wikipediaQuery,
+        )}&format=json&origin=*`,
       );
       const searchData = (await searchRes.json()) as WikipediaSearchResponse;
 
@@ -137,7 +176,7 @@ export default function AddSpeciesDialog({
       const articleTitle = searchData.query.search[0]!.title;
 
       const summaryRes = await fetch(
-        `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(articleTitle)}`
+        `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(articleTitle)}`,
       );
       if (!summaryRes.ok) {
         toast({
@@ -150,75 +189,98 @@ export default function AddSpeciesDialog({
 
       const summaryData = (await summaryRes.json()) as WikipediaSummaryResponse;
 
-      const articleDescription = summaryData.extract ?? "";
-      const articleImage = summaryData.thumbnail?.source ?? "";
-      if (articleDescription) form.setValue("description", articleDescription);
-      if (articleImage) form.setValue("image", articleImage);
-
-      if (summaryData.title) {
-        form.setValue("common_name", summaryData.title);
-      }
-
-      let scientificFromWikidata: string | undefined;
-      if (summaryData.wikibase_item) {
-        const wdRes = await fetch(
-          `https://www.wikidata.org/wiki/Special:EntityData/${encodeURIComponent(summaryData.wikibase_item)}.json`
-        );
-        if (wdRes.ok) {
-          const wd = (await wdRes.json()) as WikidataEntityResponse;
-          const ent = wd.entities?.[summaryData.wikibase_item];
-          const claims = ent?.claims?.P225;
-          const val = claims?.[0]?.mainsnak?.datavalue?.value;
-          if (typeof val === "string" && val.trim()) scientificFromWikidata = val.trim();
-        }
-        if (!scientificFromWikidata) {
-          const wd2 = await fetch(
-            `https://www.wikidata.org/w/api.php?action=wbgetentities&ids=${encodeURIComponent(
-              summaryData.wikibase_item
-            )}&format=json&origin=*`
-          );
-          if (wd2.ok) {
-            const wd = (await wd2.json()) as WikidataEntityResponse;
-            const ent = wd.entities?.[summaryData.wikibase_item];
-            const labelEn = ent?.labels?.en?.value;
-            if (labelEn && /[A-Z][a-z]+ [a-z]+/.test(labelEn)) scientificFromWikidata = labelEn;
-          }
-        }
-      }
-
-      if (scientificFromWikidata) {
-        form.setValue("scientific_name", scientificFromWikidata);
-      }
-
-      toast({ title: "Article Found", description: "Fields have been autofilled." });
+      // Taxon name, kingdom, higher ranks and IUCN status all come from the article's Wikidata item
+      const wikidata = summaryData.wikibase_item ? await fetchWikidataTaxonomy(summaryData.wikibase_item) : null;
+      const imageCredit = summaryData.thumbnail
+        ? await fetchWikimediaImageCredit(summaryData.thumbnail.source).catch(() => null)
+        : null;
+
+      const found: [AutofillField, string | null | undefined][] = [
+        ["scientific_name", wikidata?.scientificName],
+        ["common_name", summaryData.title],
+        ["kingdom", wikidata?.kingdom],
+        ["iucn_status", wikidata?.iucnStatus],
+        ...lineageRanks.map((rank): [AutofillField, string | null | undefined] => [
+          `taxonomy.${rank}`,
+          wikidata?.taxonomy[rank],
+        ]),
+        ["description", summaryData.extract],
+        ["image", summaryData.thumbnail?.source],
+      ];
+
+      const changes = found
+        .filter((entry): entry is [AutofillField, string] => typeof entry[1] === "string" && entry[1].trim() !== "")
+        .map(([field, next]) => ({ field, current: String(form.getValues(field) ?? ""), next: next.trim() }))
+        .filter((change) => change.current !== change.next);
+
+      setAutofill({ changes, imageCredit });
     } catch {
       toast({
         title: "Search Error",
         description: "An error occurred while searching Wikipedia. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const applyAutofill = () => {
+    if (!autofill) return;
+    for (const { field, next } of autofill.changes) {
+      if (field === "image") setImageCredit(autofill.imageCredit ? { url: next, credit: autofill.imageCredit } : null);
+      if (field === "kingdom") form.setValue(field, kingdomSchema.parse(next), { shouldValidate: true });
+      else if (field === "iucn_status") form.setValue(field, iucnStatusSchema.parse(next), { shouldValidate: true });
+      else form.setValue(field, next, { shouldValidate: true });
     }
+    setAutofill(null);
+    toast({ title: "Article Found", description: "Fields have been autofilled." });
   };
 
   const onSubmit = async (input: FormData) => {
     const supabase = createBrowserSupabaseClient();
-    const { error } = await supabase.from("species").insert([
-      {
-        author: userId,
-        common_name: input.common_name,
-        description: input.description,
-        kingdom: input.kingdom,
-        scientific_name: input.scientific_name,
-        total_population: input.total_population,
-        image: input.image,
-      },
-    ]);
+
+    const { data: taxonId, error: taxonomyError } = await saveTaxonomy(supabase, input.kingdom, input.taxonomy);
+    if (taxonomyError) {
+      toast({ title: "Could not save taxonomy.", description: taxonomyError.message, variant: "destructive" });
+      return;
+    }
+
+    const { data: added, error } = await supabase
+      .from("species")
+      .insert([
+        {
+          author: userId,
+          common_name: input.common_name,
+          description: input.description,
+          kingdom: input.kingdom,
+          iucn_status: input.iucn_status,
+          scientific_name: input.scientific_name,
+          total_population: input.total_population,
+          image: input.image,
+          taxon_id: taxonId,
+        },
+      ])
+      .select("id")
+      .single();
 
     if (error) {
       toast({ title: "Something went wrong.", description: error.message, variant: "destructive" });
       return;
     }
 
+    // The image was added to the gallery by a trigger; attach the credit captured from Wikimedia
+    if (input.image && imageCredit?.url === input.image) {
+      const { error: creditError } = await supabase
+        .from("species_images")
+        .update(imageCredit.credit)
+        .eq("species_id", added.id)
+        .eq("url", input.image);
+      if (creditError) {
+        toast({ title: "Could not save the image credit.", description: creditError.message, variant: "destructive" });
+      }
+    }
+
     resetForm();
     setOpen(false);
 
@@ -241,15 +303,17 @@ export default function AddSpeciesDialog({
       }}
     >
       <DialogTrigger asChild>
-        <Button variant="secondary">
-          <Icons.add className="mr-3 h-5 w-5" />
-          Add Species
-        </Button>
+        {trigger ?? (
+          <Button variant="secondary">
+            <Icons.add className="mr-3 h-5 w-5" />
+            Add Species
+          </Button>
+        )}
       </DialogTrigger>
       <DialogContent className="max-h-screen overflow-y-auto sm:max-w-[600px]">
         <DialogHeader>
           <DialogTitle>Add Species</DialogTitle>
-        <DialogDescription>Add a new species here.</DialogDescription>
+          <DialogDescription>Add a new species here.</DialogDescription>
         </DialogHeader>
 
         <div className="mb-4 flex gap-2">
@@ -258,11 +322,57 @@ export default function AddSpeciesDialog({
             value={wikipediaQuery}
             onChange={(e) => setWikipediaQuery(e.target.value)}
           />
-          <Button type="button" onClick={() => void handleWikipediaSearch()}>
-            Search
+          <Button type="button" onClick={() => void handleWikipediaSearch()} disabled={searching}>
+            {searching ? "Searching..." : "Search"}
           </Button>
         </div>
 
+        {autofill && (
+          <div className="mb-4 rounded-md border p-3">
+            <p className="mb-2 text-sm font-medium">Review the fields found on Wikipedia and Wikidata</p>
+            {autofill.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The form already matches what was found.</p>
+            ) : (
+              <table className="w-full table-fixed text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="w-1/4 pb-1 font-normal">Field</th>
+                    <th className="pb-1 font-normal">Current</th>
+                    <th className="pb-1 font-normal">New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {autofill.changes.map((change) => (
+                    <tr key={change.field} className="border-t align-top">
+                      <td className="py-1 pr-2">{autofillLabels[change.field]}</td>
+                      <td className="break-words py-1 pr-2 text-muted-foreground line-through">
+                        <span className="line-clamp-2">{formatAutofillValue(change.field, change.current) || "—"}</span>
+                      </td>
+                      <td className="break-words py-1">
+                        <span className="line-clamp-2">{formatAutofillValue(change.field, change.next)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {autofill.imageCredit && autofill.changes.some((change) => change.field === "image") && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Image: {autofill.imageCredit.author ?? "unknown author"}
+                {autofill.imageCredit.license && `, ${autofill.imageCredit.license}`} (saved with the image)
+              </p>
+            )}
+            <div className="mt-3 flex gap-2">
+              <Button type="button" size="sm" onClick={applyAutofill} disabled={autofill.changes.length === 0}>
+                Apply
+              </Button>
+              <Button type="button" size="sm" variant="secondary" onClick={() => setAutofill(null)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={(e: BaseSyntheticEvent) => void form.handleSubmit(onSubmit)(e)}>
             <div className="grid w-full items-center gap-4">
@@ -276,6 +386,7 @@ export default function AddSpeciesDialog({
                       <Input placeholder="Cavia porcellus" {...field} />
                     </FormControl>
                     <FormMessage />
+                    <SimilarSpeciesWarning name={field.value} />
                   </FormItem>
                 )}
               />
@@ -301,7 +412,7 @@ export default function AddSpeciesDialog({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Kingdom</FormLabel>
-                    <Select onValueChange={(value) => field.onChange(kingdoms.parse(value))} value={field.value}>
+                    <Select onValueChange={(value) => field.onChange(kingdomSchema.parse(value))} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select a kingdom" />
@@ -309,7 +420,7 @@ export default function AddSpeciesDialog({
                       </FormControl>
                       <SelectContent>
                         <SelectGroup>
-                          {kingdoms.options.map((k, i) => (
+                          {kingdomSchema.options.map((k, i) => (
                             <SelectItem key={i} value={k}>
                               {k}
                             </SelectItem>
@@ -321,6 +432,8 @@ export default function AddSpeciesDialog({
                   </FormItem>
                 )}
               />
+              <TaxonomyFields control={form.control} />
+              <ConservationStatusField control={form.control} />
               <FormField
                 control={form.control}
                 name="total_population"
@@ -343,21 +456,13 @@ export default function AddSpeciesDialog({
                   );
                 }}
               />
-              <FormField
+              <ImageUploadField
                 control={form.control}
-                name="image"
-                render={({ field }) => {
-                  const { value, ...rest } = field;
-                  return (
-                    <FormItem>
-                      <FormLabel>Image URL</FormLabel>
-                      <FormControl>
-                        <Input value={value ?? ""} placeholder="https://upload.wikimedia.org/..." {...rest} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  );
-                }}
+                onImageChange={({ image, rehostedFrom }) =>
+                  setImageCredit((credit) =>
+                    credit && image && rehostedFrom === credit.url ? { ...credit, url: image } : null,
+                  )
+                }
               />
               <FormField
                 control={form.control}
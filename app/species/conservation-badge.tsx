@@ -0,0 +1,33 @@
+import { iucnLabels, type IucnCategory } from "@/lib/conservation";
+import { cn } from "@/lib/utils";
+
+// Follows the usual Red List colour scale, from green (Least Concern) through red to black (Extinct)
+const badgeColors: Record<IucnCategory, string> = {
+  LC: "bg-green-600 text-white",
+  NT: "bg-lime-500 text-black",
+  VU: "bg-yellow-400 text-black",
+  EN: "bg-orange-500 text-white",
+  CR: "bg-red-600 text-white",
+  EW: "bg-purple-700 text-white",
+  EX: "bg-black text-white dark:bg-neutral-200 dark:text-black",
+  DD: "bg-neutral-400 text-black",
+};
+
+export default function ConservationBadge({ status, className }: { status: IucnCategory | null; className?: string }) {
+  if (!status) {
+    return (
+      <span className={cn("inline-block rounded px-2 py-0.5 text-xs text-muted-foreground", className)}>
+        Not assessed
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={iucnLabels[status]}
+      className={cn("inline-block rounded px-2 py-0.5 text-xs font-semibold", badgeColors[status], className)}
+    >
+      {status} · {iucnLabels[status]}
+    </span>
+  );
+}
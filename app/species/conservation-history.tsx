@@ -0,0 +1,186 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { iucnCategories, iucnLabels, iucnStatusSchema, type IucnCategory } from "@/lib/conservation";
+import { canManageSpecies, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { useCallback, useEffect, useState } from "react";
+import { z } from "zod";
+import ConservationBadge from "./conservation-badge";
+import PopulationSparkline from "./population-sparkline";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Assessment = Database["public"]["Tables"]["species_assessments"]["Row"];
+
+const NOT_ASSESSED = "none";
+
+const assessmentSchema = z
+  .object({
+    assessed_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a valid date."),
+    iucn_status: iucnStatusSchema,
+    population: z.number().int().positive().nullable(),
+  })
+  .refine((val) => val.iucn_status !== null || val.population !== null, {
+    message: "Enter a status, a population, or both.",
+  });
+
+// userId and role are the signed in user's, if any; only those who can manage the species can add assessments
+export default function ConservationHistory({
+  species,
+  userId,
+  role,
+}: {
+  species: Species;
+  userId?: string;
+  role?: Role | null;
+}) {
+  const [assessments, setAssessments] = useState<Assessment[] | null>(null);
+  const [assessedOn, setAssessedOn] = useState("");
+  const [status, setStatus] = useState<IucnCategory | null>(null);
+  const [population, setPopulation] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadAssessments = useCallback(async () => {
+    const supabase = createBrowserSupabaseClient();
+    const { data, error } = await supabase
+      .from("species_assessments")
+      .select()
+      .eq("species_id", species.id)
+      .order("assessed_on", { ascending: true })
+      .order("id", { ascending: true });
+
+    if (error) {
+      toast({ title: "Could not load assessment history.", description: error.message, variant: "destructive" });
+      return;
+    }
+    setAssessments(data);
+  }, [species.id]);
+
+  useEffect(() => {
+    void loadAssessments();
+  }, [loadAssessments]);
+
+  const handleAdd = async () => {
+    if (!userId) return;
+    const parsed = assessmentSchema.safeParse({
+      assessed_on: assessedOn,
+      iucn_status: status,
+      population: population.trim() === "" ? null : Number(population),
+    });
+    if (!parsed.success) {
+      toast({ title: "Invalid assessment", description: parsed.error.issues[0]?.message, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase
+      .from("species_assessments")
+      .insert({ ...parsed.data, species_id: species.id, author: userId });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Could not save assessment.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setAssessedOn("");
+    setStatus(null);
+    setPopulation("");
+    await loadAssessments();
+  };
+
+  const populationPoints = (assessments ?? [])
+    .filter((a): a is Assessment & { population: number } => a.population !== null)
+    .map((a) => ({ date: a.assessed_on, population: a.population }));
+
+  return (
+    <div className="space-y-3">
+      <p>
+        <strong>Conservation Status:</strong> <ConservationBadge status={species.iucn_status} />
+      </p>
+
+      {populationPoints.length > 1 && (
+        <div>
+          <p className="text-sm text-muted-foreground">Population over time</p>
+          <PopulationSparkline points={populationPoints} />
+        </div>
+      )}
+
+      <details>
+        <summary className="cursor-pointer text-sm font-medium">
+          Assessment history {assessments ? `(${assessments.length})` : ""}
+        </summary>
+        {assessments === null ? (
+          <p className="mt-2 text-sm text-muted-foreground">Loading...</p>
+        ) : assessments.length === 0 ? (
+          <p className="mt-2 text-sm text-muted-foreground">No assessments recorded yet.</p>
+        ) : (
+          <table className="mt-2 w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-normal">Date</th>
+                <th className="font-normal">Status</th>
+                <th className="font-normal">Population</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...assessments].reverse().map((a) => (
+                <tr key={a.id} className="border-t">
+                  <td className="py-1">{a.assessed_on}</td>
+                  <td className="py-1">{a.iucn_status ? <ConservationBadge status={a.iucn_status} /> : "—"}</td>
+                  <td className="py-1">{a.population?.toLocaleString() ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {userId && canManageSpecies(userId, role, species) && (
+          <div className="mt-3 flex flex-wrap items-end gap-2">
+            <Input
+              type="date"
+              aria-label="Assessment date"
+              value={assessedOn}
+              onChange={(e) => setAssessedOn(e.target.value)}
+              className="w-40"
+            />
+            <Select
+              value={status ?? NOT_ASSESSED}
+              onValueChange={(v) => setStatus(v === NOT_ASSESSED ? null : iucnStatusSchema.parse(v))}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value={NOT_ASSESSED}>No status</SelectItem>
+                  {iucnCategories.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {iucnLabels[category]} ({category})
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              aria-label="Population"
+              placeholder="Population"
+              value={population}
+              onChange={(e) => setPopulation(e.target.value)}
+              className="w-32"
+            />
+            <Button type="button" size="sm" onClick={() => void handleAdd()} disabled={saving}>
+              {saving ? "Saving..." : "Add assessment"}
+            </Button>
+          </div>
+        )}
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { iucnCategories, iucnLabels, iucnStatusSchema, type IucnCategory } from "@/lib/conservation";
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+
+// Radix Select items can't have an empty value, so "not assessed" gets a placeholder value of its own
+const NOT_ASSESSED = "none";
+
+// IUCN status select for the add/edit species forms. The form must keep the value under `iucn_status`.
+export default function ConservationStatusField<T extends FieldValues & { iucn_status: IucnCategory | null }>({
+  control,
+}: {
+  control: Control<T>;
+}) {
+  return (
+    <FormField
+      control={control}
+      name={"iucn_status" as FieldPath<T>}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>IUCN Status</FormLabel>
+          <Select
+            onValueChange={(value) => field.onChange(value === NOT_ASSESSED ? null : iucnStatusSchema.parse(value))}
+            value={(field.value as IucnCategory | null) ?? NOT_ASSESSED}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a status" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectGroup>
+                <SelectItem value={NOT_ASSESSED}>Not assessed</SelectItem>
+                {iucnCategories.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {iucnLabels[status]} ({status})
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -1,33 +1,40 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "@/components/ui/use-toast";
 import { createBrowserSupabaseClient } from "@/lib/client-utils";
-import { useState } from "react";
+import { canManageSpecies, type Role } from "@/lib/roles";
 import type { Database } from "@/lib/schema";
+import { useState } from "react";
 
 type Species = Database["public"]["Tables"]["species"]["Row"];
 
 export default function DeleteSpeciesButton({
   userId,
+  role,
   species,
   onDeleted,
 }: {
   userId: string;
+  role: Role | null;
   species: Species;
   onDeleted?: () => void;
 }) {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  if (userId !== species.author) return null;
+  if (!canManageSpecies(userId, role, species)) return null;
 
   const handleDelete = async () => {
     setLoading(true);
     const supabase = createBrowserSupabaseClient();
 
-    const { error } = await supabase.from("species").delete().eq("id", species.id).eq("author", userId);
+    // Deleting only moves the species to its author's trash; it can be restored or purged from Settings → Trash
+    const { error } = await supabase
+      .from("species")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", species.id);
 
     setLoading(false);
     setOpen(false);
@@ -37,7 +44,7 @@ export default function DeleteSpeciesButton({
       return;
     }
 
-    toast({ title: "Species Deleted", description: `${species.scientific_name} has been removed.` });
+    toast({ title: "Species Deleted", description: `${species.scientific_name} has been moved to the trash.` });
 
     if (onDeleted) {
       onDeleted();
@@ -57,7 +64,11 @@ export default function DeleteSpeciesButton({
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
           </DialogHeader>
-          <p>Are you sure you want to delete &quot;{species.scientific_name}&quot;? This action cannot be undone.</p>
+          <p>
+            Are you sure you want to delete &quot;{species.scientific_name}&quot;? It will be moved to the trash, where
+            {userId === species.author ? " you" : " its author"} can restore it from settings until it is permanently
+            deleted.
+          </p>
           <DialogFooter>
             <Button variant="secondary" onClick={() => setOpen(false)} disabled={loading}>
               Cancel
@@ -1,5 +1,6 @@
 "use client";
 
+import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogClose,
@@ -10,24 +11,43 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "@/components/ui/use-toast";
 import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { iucnStatusSchema } from "@/lib/conservation";
+import { canManageSpecies, hasRole, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { normalizeScientificName } from "@/lib/scientific-name";
+import { speciesFields, type Snapshot, type SpeciesField } from "@/lib/species-fields";
+import {
+  emptyTaxonomy,
+  fetchTaxonomy,
+  lineageRanks,
+  saveTaxonomy,
+  taxonomySchema,
+  type Taxonomy,
+} from "@/lib/taxonomy";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useEffect, useState, type BaseSyntheticEvent } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import type { Database } from "@/lib/schema";
+import ConservationStatusField from "./conservation-status-field";
+import ImageUploadField from "./image-upload-field";
+import TaxonomyFields from "./taxonomy-fields";
 
 const kingdoms = z.enum(["Animalia", "Plantae", "Fungi", "Protista", "Archaea", "Bacteria"]);
 
 const speciesSchema = z.object({
-  scientific_name: z.string().trim().min(1, "Scientific Name is required"),
-  common_name: z.string().nullable().transform((val) => (val?.trim() ? val.trim() : "")),
+  scientific_name: z.string().trim().min(1, "Scientific Name is required").transform(normalizeScientificName),
+  common_name: z
+    .string()
+    .nullable()
+    .transform((val) => (val?.trim() ? val.trim() : "")),
   kingdom: kingdoms,
+  iucn_status: iucnStatusSchema,
   total_population: z
     .union([z.string(), z.number()])
     .nullable()
@@ -35,23 +55,43 @@ const speciesSchema = z.object({
     .refine((val) => val === "" || (typeof val === "number" && val > 0), {
       message: "Total Population must be a positive number",
     }),
-  image: z.string().url().nullable().transform((val) => (val?.trim() ? val.trim() : "")),
-  description: z.string().nullable().transform((val) => (val?.trim() ? val.trim() : "")),
+  image: z
+    .string()
+    .url()
+    .nullable()
+    .transform((val) => (val?.trim() ? val.trim() : "")),
+  description: z
+    .string()
+    .nullable()
+    .transform((val) => (val?.trim() ? val.trim() : "")),
+  taxonomy: taxonomySchema,
 });
 
 type FormData = z.infer<typeof speciesSchema>;
 type Species = Database["public"]["Tables"]["species"]["Row"];
 
+// The form saves blank text fields as empty strings, while other code leaves them null
+function normalize<T>(value: T) {
+  return value === "" ? null : value;
+}
+
+// Authors and moderators edit the species directly; other contributors get the same form to suggest an edit for review
 export default function EditSpeciesDialog({
   userId,
+  role,
   species,
   onUpdated,
 }: {
   userId: string;
+  role: Role | null;
   species: Species;
   onUpdated?: () => void;
 }) {
   const [open, setOpen] = useState<boolean>(false);
+  const [comment, setComment] = useState("");
+  // The lineage as loaded, which suggested edits are compared against
+  const [currentTaxonomy, setCurrentTaxonomy] = useState<Taxonomy>(emptyTaxonomy);
+  const canEdit = canManageSpecies(userId, role, species);
 
   const form = useForm<FormData>({
     resolver: zodResolver(speciesSchema),
@@ -59,9 +99,11 @@ export default function EditSpeciesDialog({
       scientific_name: species.scientific_name ?? "",
       common_name: species.common_name ?? "",
       kingdom: species.kingdom ?? "Animalia",
+      iucn_status: species.iucn_status,
       total_population: species.total_population ?? "",
       image: species.image ?? "",
       description: species.description ?? "",
+      taxonomy: emptyTaxonomy,
     },
     mode: "onChange",
   });
@@ -72,27 +114,62 @@ export default function EditSpeciesDialog({
         scientific_name: species.scientific_name ?? "",
         common_name: species.common_name ?? "",
         kingdom: species.kingdom ?? "Animalia",
+        iucn_status: species.iucn_status,
         total_population: species.total_population ?? "",
         image: species.image ?? "",
         description: species.description ?? "",
+        taxonomy: emptyTaxonomy,
       });
+      setComment("");
     }
   }, [open, form, species]);
 
-  if (userId !== species.author) return null;
+  // The lineage lives in the taxa table, so load it when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const loadTaxonomy = async () => {
+      const supabase = createBrowserSupabaseClient();
+      const { data, error } = await fetchTaxonomy(supabase, species.taxon_id);
+      if (cancelled) return;
+      if (error) {
+        toast({ title: "Could not load taxonomy.", description: error.message, variant: "destructive" });
+        return;
+      }
+      form.setValue("taxonomy", data);
+      setCurrentTaxonomy(data);
+    };
+
+    void loadTaxonomy();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, form, species.taxon_id]);
 
   const onSubmit = async (input: FormData) => {
-    const supabase = createBrowserSupabaseClient();
+    const { taxonomy, ...fields } = input;
     const sanitized = {
-      ...input,
-      total_population: input.total_population === "" ? null : input.total_population,
+      ...fields,
+      total_population: fields.total_population === "" ? null : fields.total_population,
     };
 
+    if (!canEdit) {
+      await submitProposal(sanitized, taxonomy);
+      return;
+    }
+
+    const supabase = createBrowserSupabaseClient();
+    const { data: taxonId, error: taxonomyError } = await saveTaxonomy(supabase, fields.kingdom, taxonomy);
+    if (taxonomyError) {
+      toast({ title: "Error updating taxonomy", description: taxonomyError.message, variant: "destructive" });
+      return;
+    }
+
     const { error } = await supabase
       .from("species")
-      .update(sanitized)
-      .eq("id", species.id)
-      .eq("author", userId);
+      .update({ ...sanitized, taxon_id: taxonId })
+      .eq("id", species.id);
 
     if (error) {
       toast({ title: "Error updating species", description: error.message, variant: "destructive" });
@@ -107,15 +184,66 @@ export default function EditSpeciesDialog({
     toast({ title: "Species updated!", description: `Successfully updated ${input.scientific_name}.` });
   };
 
+  // The lineage is proposed by name: its taxa are only created once the edit is accepted
+  const submitProposal = async (updated: Pick<Species, Exclude<SpeciesField, "taxon_id">>, taxonomy: Taxonomy) => {
+    const changes: Snapshot = {};
+    const baseData: Snapshot = {};
+    for (const field of speciesFields) {
+      if (field === "taxon_id") continue;
+      const value = normalize(updated[field]);
+      const current = normalize(species[field]);
+      if (value !== current) {
+        changes[field] = value;
+        baseData[field] = current;
+      }
+    }
+    // A new kingdom moves the whole lineage, so it is proposed again even if the names stayed the same
+    if (updated.kingdom !== species.kingdom || lineageRanks.some((rank) => taxonomy[rank] !== currentTaxonomy[rank])) {
+      changes.taxonomy = taxonomy;
+      baseData.taxonomy = currentTaxonomy;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      toast({ title: "Nothing to suggest", description: "Change at least one field first.", variant: "destructive" });
+      return;
+    }
+
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.from("species_edit_proposals").insert({
+      species_id: species.id,
+      proposed_by: userId,
+      changes,
+      base_data: baseData,
+      comment: comment.trim() === "" ? null : comment.trim(),
+    });
+
+    if (error) {
+      toast({ title: "Error suggesting edit", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setOpen(false);
+    toast({
+      title: "Edit suggested!",
+      description: `Your changes to ${species.scientific_name} will be reviewed before they are applied.`,
+    });
+  };
+
+  if (!canEdit && !hasRole(role, "contributor")) return null;
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <Button variant="secondary">Edit</Button>
+        <Button variant="secondary">{canEdit ? "Edit" : "Suggest edit"}</Button>
       </DialogTrigger>
       <DialogContent className="max-h-screen overflow-y-auto sm:max-w-[600px]">
         <DialogHeader>
-          <DialogTitle>Edit Species</DialogTitle>
-          <DialogDescription>Modify species details and click Save Changes when done.</DialogDescription>
+          <DialogTitle>{canEdit ? "Edit Species" : "Suggest an Edit"}</DialogTitle>
+          <DialogDescription>
+            {canEdit
+              ? "Modify species details and click Save Changes when done."
+              : "Propose changes to this species. Its author or a moderator will review them before they are applied."}
+          </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={(e: BaseSyntheticEvent) => void form.handleSubmit(onSubmit)(e)}>
@@ -172,6 +300,8 @@ export default function EditSpeciesDialog({
                   </FormItem>
                 )}
               />
+              <TaxonomyFields control={form.control} />
+              <ConservationStatusField control={form.control} />
               <FormField
                 control={form.control}
                 name="total_population"
@@ -190,19 +320,7 @@ export default function EditSpeciesDialog({
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="image"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Image URL</FormLabel>
-                    <FormControl>
-                      <Input {...field} value={field.value ?? ""} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <ImageUploadField control={form.control} />
               <FormField
                 control={form.control}
                 name="description"
@@ -216,9 +334,20 @@ export default function EditSpeciesDialog({
                   </FormItem>
                 )}
               />
+              {!canEdit && (
+                <div className="grid gap-2">
+                  <Label htmlFor="proposal-comment">Note for the author</Label>
+                  <Textarea
+                    id="proposal-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Why are you suggesting these changes? Sources help."
+                  />
+                </div>
+              )}
               <div className="flex">
                 <Button type="submit" className="mr-2">
-                  Save Changes
+                  {canEdit ? "Save Changes" : "Send Suggestion"}
                 </Button>
                 <DialogClose asChild>
                   <Button type="button" variant="secondary">
@@ -0,0 +1,53 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportFormatLabels, exportFormats, type ExportFormat } from "@/lib/species-export";
+import { speciesQueryToSearchParams, type SpeciesQuery } from "@/lib/species-query";
+import { Download } from "lucide-react";
+
+// Downloads every species matching the current filters, not just the pages loaded so far
+export default function ExportMenu({ query }: { query: SpeciesQuery }) {
+  const exportUrl = (format: ExportFormat) => {
+    const params = speciesQueryToSearchParams({
+      sort: query.sort,
+      kingdom: query.kingdom,
+      status: query.status,
+      search: query.search,
+    });
+    params.set("format", format);
+    return `/api/species/export?${params.toString()}`;
+  };
+  const filtered = !!(query.search ?? query.kingdom ?? query.status);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">
+          {filtered ? "Matching species" : "All species"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {exportFormats.map((format) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(format)} download>
+              {exportFormatLabels[format]}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
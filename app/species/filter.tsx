@@ -1,68 +1,74 @@
 "use client";
 
-import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { iucnCategories, iucnLabels, type IucnCategory } from "@/lib/conservation";
+import { kingdoms, speciesSorts, type SpeciesQuery, type SpeciesSort } from "@/lib/species-query";
+import { useEffect, useState } from "react";
 
-const kingdoms = ["All", "Animalia", "Plantae", "Fungi", "Protista", "Archaea", "Bacteria"] as const;
+const kingdomOptions = ["All", ...kingdoms] as const;
 
-type Kingdom = (typeof kingdoms)[number];
+type KingdomOption = (typeof kingdomOptions)[number];
 
-interface Species {
-  id: number;
-  scientific_name: string;
-  common_name: string | null;
-  kingdom: "Animalia" | "Plantae" | "Fungi" | "Protista" | "Archaea" | "Bacteria";
-  total_population: number | null;
-  image: string | null;
-  description: string | null;
-  author: string;
+const sortLabels: Record<SpeciesSort, string> = {
+  relevance: "Best match",
+  id: "Newest",
+  name: "Name (A–Z)",
+  population: "Population",
+};
+
+// Wait for the user to stop typing before hitting the API
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Rank results while searching and go back to newest-first once the search is cleared
+function sortForSearch(sort: SpeciesSort, search: string | undefined): SpeciesSort {
+  if (search && sort === "id") return "relevance";
+  if (!search && sort === "relevance") return "id";
+  return sort;
 }
 
 interface SpeciesFilterProps {
-  species: Species[];
-  setFilteredSpecies: React.Dispatch<React.SetStateAction<Species[]>>;
+  query: SpeciesQuery;
+  onQueryChange: (query: SpeciesQuery) => void;
 }
 
-export default function SpeciesFilter({ species, setFilteredSpecies }: SpeciesFilterProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedKingdom, setSelectedKingdom] = useState<Kingdom>("All");
+export default function SpeciesFilter({ query, onQueryChange }: SpeciesFilterProps) {
+  const [searchTerm, setSearchTerm] = useState(query.search ?? "");
 
   useEffect(() => {
-    let filtered = species;
-
-    if (searchTerm) {
-      const q = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (s) =>
-          s.scientific_name.toLowerCase().includes(q) || (s.common_name && s.common_name.toLowerCase().includes(q))
-      );
-    }
+    const search = searchTerm.trim() === "" ? undefined : searchTerm.trim();
+    if (search === query.search) return;
 
-    if (selectedKingdom !== "All") {
-      filtered = filtered.filter((s) => s.kingdom === selectedKingdom);
-    }
-
-    setFilteredSpecies(filtered);
-  }, [searchTerm, selectedKingdom, species, setFilteredSpecies]);
+    const timeout = setTimeout(
+      () => onQueryChange({ ...query, search, sort: sortForSearch(query.sort, search) }),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [searchTerm, query, onQueryChange]);
 
   return (
     <div className="mb-5 flex flex-wrap gap-4">
       <Input
         type="text"
-        placeholder="Search by name..."
+        placeholder="Search names and descriptions..."
         value={searchTerm}
         onChange={(e) => setSearchTerm(e.target.value)}
         className="w-64"
       />
 
-      <Select value={selectedKingdom} onValueChange={(v) => setSelectedKingdom(v as Kingdom)}>
+      <Select
+        value={query.kingdom ?? "All"}
+        onValueChange={(v) => {
+          const kingdom = v as KingdomOption;
+          onQueryChange({ ...query, kingdom: kingdom === "All" ? undefined : kingdom });
+        }}
+      >
         <SelectTrigger className="w-48">
           <SelectValue placeholder="Filter by Kingdom" />
         </SelectTrigger>
         <SelectContent>
           <SelectGroup>
-            {kingdoms.map((kingdom) => (
+            {kingdomOptions.map((kingdom) => (
               <SelectItem key={kingdom} value={kingdom}>
                 {kingdom}
               </SelectItem>
@@ -70,6 +76,42 @@ export default function SpeciesFilter({ species, setFilteredSpecies }: SpeciesFi
           </SelectGroup>
         </SelectContent>
       </Select>
+
+      <Select
+        value={query.status ?? "All"}
+        onValueChange={(v) => onQueryChange({ ...query, status: v === "All" ? undefined : (v as IucnCategory) })}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Filter by IUCN status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectItem value="All">All statuses</SelectItem>
+            {iucnCategories.map((status) => (
+              <SelectItem key={status} value={status}>
+                {iucnLabels[status]} ({status})
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      <Select value={query.sort} onValueChange={(v) => onQueryChange({ ...query, sort: v as SpeciesSort })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Sort by" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {speciesSorts
+              .filter((sort) => sort !== "relevance" || query.search)
+              .map((sort) => (
+                <SelectItem key={sort} value={sort}>
+                  {sortLabels[sort]}
+                </SelectItem>
+              ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
     </div>
   );
 }
@@ -0,0 +1,51 @@
+import { Fragment } from "react";
+
+const markClassName = "rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700";
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Wraps every case-insensitive occurrence of the search words in `text` with <mark>. */
+export function HighlightedText({ text, search }: { text: string; search?: string }) {
+  const words = (search ?? "")
+    .split(/\s+/)
+    .filter((word) => word.length >= 2)
+    .map(escapeRegExp);
+
+  if (words.length === 0) return <>{text}</>;
+
+  // The capture group keeps the matches in the split output at odd indices
+  const parts = text.split(new RegExp(`(${words.join("|")})`, "gi"));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className={markClassName}>
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+/** Renders a `headline` from the search_species RPC, whose matches are delimited by [[ and ]]. */
+export function SearchHeadline({ headline }: { headline: string }) {
+  const parts = headline.split(/\[\[|\]\]/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className={markClassName}>
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toast } from "@/components/ui/use-toast";
+import {
+  MAX_IMAGE_BYTES,
+  imageHost,
+  isHostedImage,
+  isRehostable,
+  speciesThumbnail,
+  uploadSpeciesImage,
+} from "@/lib/species-images";
+import { cn } from "@/lib/utils";
+import Image from "next/image";
+import { useRef, useState, type DragEvent } from "react";
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+
+// Drag-and-drop image upload for the add/edit species forms. The form must keep the image URL under `image`.
+// `onImageChange` reports every change made here; `rehostedFrom` is set when a linked image was saved as a copy.
+export default function ImageUploadField<T extends FieldValues & { image: string | null }>({
+  control,
+  onImageChange,
+}: {
+  control: Control<T>;
+  onImageChange?: (change: { image: string | null; rehostedFrom?: string }) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  return (
+    <FormField
+      control={control}
+      name={"image" as FieldPath<T>}
+      render={({ field }) => {
+        const value = (field.value as string | null) ?? "";
+
+        const upload = async (source: File | string) => {
+          if (source instanceof File) {
+            if (!source.type.startsWith("image/")) {
+              toast({ title: "Not an image", description: "Choose an image file.", variant: "destructive" });
+              return;
+            }
+            if (source.size > MAX_IMAGE_BYTES) {
+              toast({ title: "Image too large", description: "Images must be 10 MB or less.", variant: "destructive" });
+              return;
+            }
+          }
+
+          setUploading(true);
+          try {
+            const { image } = await uploadSpeciesImage(source);
+            field.onChange(image);
+            onImageChange?.({ image, rehostedFrom: typeof source === "string" ? source : undefined });
+          } catch (err) {
+            toast({ title: "Could not upload image.", description: (err as Error).message, variant: "destructive" });
+          } finally {
+            setUploading(false);
+          }
+        };
+
+        const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) void upload(file);
+        };
+
+        return (
+          <FormItem>
+            <FormLabel>Image</FormLabel>
+            {value ? (
+              <div className="space-y-2">
+                <div className="relative h-40 w-full overflow-hidden rounded">
+                  <Image src={speciesThumbnail(value)} alt="Species image" fill style={{ objectFit: "cover" }} />
+                </div>
+                {!isHostedImage(value) && (
+                  <p className="text-sm text-muted-foreground">
+                    This image is linked from {imageHost(value) ?? "another site"} and will break if it is moved there.
+                    {isRehostable(value) ? " Save a copy to keep it." : " Upload a copy instead."}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  {isRehostable(value) && (
+                    <Button type="button" size="sm" onClick={() => void upload(value)} disabled={uploading}>
+                      {uploading ? "Saving..." : "Save a copy"}
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => inputRef.current?.click()}
+                    disabled={uploading}
+                  >
+                    Replace
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => {
+                      field.onChange(null);
+                      onImageChange?.({ image: null });
+                    }}
+                    disabled={uploading}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <FormControl>
+                <div
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => inputRef.current?.click()}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") inputRef.current?.click();
+                  }}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                  }}
+                  onDragLeave={() => setDragging(false)}
+                  onDrop={handleDrop}
+                  className={cn(
+                    "flex h-28 cursor-pointer items-center justify-center rounded border-2 border-dashed text-sm text-muted-foreground",
+                    dragging && "border-primary bg-muted",
+                  )}
+                >
+                  {uploading ? "Uploading..." : "Drop an image here or click to choose one"}
+                </div>
+              </FormControl>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void upload(file);
+              }}
+            />
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
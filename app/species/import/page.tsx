@@ -0,0 +1,36 @@
+import { Separator } from "@/components/ui/separator";
+import { TypographyH2, TypographyP } from "@/components/ui/typography";
+import { fetchRole, hasRole } from "@/lib/roles";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import SpeciesImport from "./species-import";
+
+export default async function ImportSpeciesPage() {
+  // Create supabase server component client and obtain user session from stored cookie
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  // Viewers can't add species
+  if (!hasRole(await fetchRole(supabase, session.user.id), "contributor")) {
+    redirect("/species");
+  }
+
+  return (
+    <>
+      <TypographyH2>Import Species</TypographyH2>
+      <TypographyP>
+        Upload a CSV or JSON file of species. Every row is checked before anything is saved, and only valid rows are
+        imported.
+      </TypographyP>
+      <Separator className="my-4" />
+      <SpeciesImport />
+    </>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { importFormat, MAX_IMPORT_ROWS, parseImportFile, toSpeciesInput } from "@/lib/species-import";
+import { speciesSchema, type SpeciesFormData } from "@/lib/species-schema";
+import { lineageRanks } from "@/lib/taxonomy";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState, type ChangeEvent } from "react";
+
+type RowStatus = "valid" | "invalid" | "duplicate";
+
+interface ImportRow {
+  row: number;
+  name: string;
+  data: SpeciesFormData | null;
+  status: RowStatus;
+  issues: string[];
+}
+
+const statusLabels: Record<RowStatus, string> = {
+  valid: "Ready",
+  invalid: "Error",
+  duplicate: "Duplicate",
+};
+
+const statusClasses: Record<RowStatus, string> = {
+  valid: "text-green-700 dark:text-green-400",
+  invalid: "text-destructive",
+  duplicate: "text-amber-700 dark:text-amber-400",
+};
+
+// Names are looked up in batches so the request URL stays short
+const LOOKUP_CHUNK_SIZE = 100;
+
+const templateColumns = [
+  "scientific_name",
+  "common_name",
+  "kingdom",
+  ...lineageRanks,
+  "iucn_status",
+  "total_population",
+  "image",
+  "description",
+];
+
+interface NameIssue {
+  status: RowStatus;
+  issue: string;
+}
+
+/**
+ * Maps each name that is already taken, by a species (trashed species keep their name) or as a synonym of one, to the
+ * issue to report on its rows. Names are normalized by speciesSchema, so they compare directly with the stored ones.
+ * A failed lookup is reported on the rows it was checking.
+ */
+async function findNameIssues(names: string[]) {
+  const supabase = createBrowserSupabaseClient();
+  const issues = new Map<string, NameIssue>();
+  const unique = [...new Set(names)];
+
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + LOOKUP_CHUNK_SIZE);
+    const [species, synonyms] = await Promise.all([
+      supabase.from("species").select("scientific_name, deleted_at").in("scientific_name", chunk),
+      supabase.from("species_synonyms").select("name, species(scientific_name)").in("name", chunk),
+    ]);
+    const error = species.error ?? synonyms.error;
+    if (error) {
+      for (const name of chunk) {
+        issues.set(name, { status: "invalid", issue: `Could not check for duplicates: ${error.message}` });
+      }
+      continue;
+    }
+    for (const s of species.data ?? []) {
+      issues.set(s.scientific_name, {
+        status: "duplicate",
+        issue:
+          s.deleted_at !== null
+            ? "A species with this scientific name is in the trash."
+            : "A species with this scientific name already exists.",
+      });
+    }
+    for (const synonym of synonyms.data ?? []) {
+      issues.set(synonym.name, {
+        status: "duplicate",
+        issue: `This name is a synonym of ${synonym.species?.scientific_name ?? "another species"}.`,
+      });
+    }
+  }
+  return issues;
+}
+
+export default function SpeciesImport() {
+  const router = useRouter();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const validRows = rows.filter((r): r is ImportRow & { data: SpeciesFormData } => r.status === "valid" && !!r.data);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRows([]);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    const format = importFormat(file.name);
+    if (!format) {
+      toast({ title: "Unsupported file", description: "Choose a .csv or .json file.", variant: "destructive" });
+      return;
+    }
+
+    setChecking(true);
+    try {
+      const records = parseImportFile(await file.text(), format);
+
+      // CSV rows are numbered like a spreadsheet, after the header line
+      const checked: ImportRow[] = records.map((record, i) => {
+        const row = format === "csv" ? i + 2 : i + 1;
+        const parsed = speciesSchema.safeParse(toSpeciesInput(record));
+        if (!parsed.success) {
+          return {
+            row,
+            name: typeof record.scientific_name === "string" ? record.scientific_name : "",
+            data: null,
+            status: "invalid",
+            issues: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+          };
+        }
+        return { row, name: parsed.data.scientific_name, data: parsed.data, status: "valid", issues: [] };
+      });
+
+      // scientific_name is unique and can't be another species' synonym, so flag names that are already taken or
+      // repeat earlier in the file
+      const nameIssues = await findNameIssues(checked.flatMap((r) => (r.data ? [r.data.scientific_name] : [])));
+      const firstRowByName = new Map<string, number>();
+      for (const r of checked) {
+        if (!r.data) continue;
+        const name = r.data.scientific_name;
+        const firstRow = firstRowByName.get(name);
+        const nameIssue = nameIssues.get(name);
+        if (nameIssue) {
+          r.status = nameIssue.status;
+          r.issues.push(nameIssue.issue);
+        } else if (firstRow !== undefined) {
+          r.status = "duplicate";
+          r.issues.push(`Same scientific name as row ${firstRow}.`);
+        } else {
+          firstRowByName.set(name, r.row);
+        }
+      }
+
+      setRows(checked);
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setImporting(true);
+    const supabase = createBrowserSupabaseClient();
+    const { data, error } = await supabase.rpc("import_species", { rows: validRows.map((r) => r.data) });
+    setImporting(false);
+
+    if (error) {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Species imported!", description: `Successfully imported ${data.length} species.` });
+    router.push("/species");
+    router.refresh();
+  };
+
+  const invalidCount = rows.filter((r) => r.status === "invalid").length;
+  const duplicateCount = rows.filter((r) => r.status === "duplicate").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          aria-label="Species file"
+          onChange={(e) => void handleFile(e)}
+          disabled={checking || importing}
+          className="max-w-md"
+        />
+        <p className="text-sm text-muted-foreground">
+          Up to {MAX_IMPORT_ROWS} rows. CSV files need a header row with the columns{" "}
+          <code>{templateColumns.join(", ")}</code>. JSON files should contain an array of objects with the same keys;
+          the ranks may also be nested in a <code>taxonomy</code> object.
+        </p>
+      </div>
+
+      {checking && <p className="text-sm text-muted-foreground">Checking {fileName}...</p>}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm">
+              {fileName}: {rows.length} rows, {validRows.length} ready, {invalidCount} with errors, {duplicateCount}{" "}
+              duplicates.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="secondary" asChild>
+                <Link href="/species">Cancel</Link>
+              </Button>
+              <Button onClick={() => void handleImport()} disabled={importing || validRows.length === 0}>
+                {importing ? "Importing..." : `Import ${validRows.length} valid rows`}
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="px-2 py-1 font-normal">Row</th>
+                  <th className="px-2 py-1 font-normal">Scientific Name</th>
+                  <th className="px-2 py-1 font-normal">Common Name</th>
+                  <th className="px-2 py-1 font-normal">Kingdom</th>
+                  <th className="px-2 py-1 font-normal">Status</th>
+                  <th className="px-2 py-1 font-normal">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.row} className="border-t align-top">
+                    <td className="px-2 py-1">{r.row}</td>
+                    <td className="px-2 py-1 italic">{r.name || "—"}</td>
+                    <td className="px-2 py-1">{r.data?.common_name ?? "—"}</td>
+                    <td className="px-2 py-1">{r.data?.kingdom ?? "—"}</td>
+                    <td className={`px-2 py-1 font-medium ${statusClasses[r.status]}`}>{statusLabels[r.status]}</td>
+                    <td className="px-2 py-1">
+                      {r.issues.length > 0 ? (
+                        <ul>
+                          {r.issues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { extent } from "d3-array";
+import { scaleLinear, scaleTime } from "d3-scale";
+
+interface PopulationPoint {
+  date: string;
+  population: number;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const PADDING = 4;
+
+// Tiny line chart of population counts over time, oldest assessment on the left
+export default function PopulationSparkline({ points }: { points: PopulationPoint[] }) {
+  if (points.length === 0) return null;
+
+  const dates = points.map((p) => new Date(p.date));
+  const [minDate, maxDate] = extent(dates) as [Date, Date];
+  const [minPop, maxPop] = extent(points, (p) => p.population) as [number, number];
+
+  // Pad flat series so a single value or a constant population still draws in the middle
+  const x = scaleTime()
+    .domain(
+      minDate.getTime() === maxDate.getTime() ? [minDate.getTime() - 1, maxDate.getTime() + 1] : [minDate, maxDate],
+    )
+    .range([PADDING, WIDTH - PADDING]);
+  const y = scaleLinear()
+    .domain(minPop === maxPop ? [minPop - 1, maxPop + 1] : [minPop, maxPop])
+    .range([HEIGHT - PADDING, PADDING]);
+
+  const coords = points.map((p, i) => [x(dates[i]!), y(p.population)] as const);
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} role="img" aria-label="Population over time" className="text-primary">
+      <polyline
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+        points={coords.map(([cx, cy]) => `${cx},${cy}`).join(" ")}
+      />
+      {coords.map(([cx, cy], i) => (
+        <circle key={i} cx={cx} cy={cy} r={2.5} fill="currentColor">
+          <title>
+            {points[i]!.date}: {points[i]!.population.toLocaleString()}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { normalizeScientificName } from "@/lib/scientific-name";
+import { speciesPath } from "@/lib/species-url";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type SimilarSpecies = Database["public"]["Functions"]["find_similar_species"]["Returns"][number];
+
+// Wait for the user to stop typing before looking up the name
+const LOOKUP_DEBOUNCE_MS = 400;
+
+function matchDescription(match: SimilarSpecies) {
+  if (match.match_type === "exact") return "already exists";
+  if (match.match_type === "synonym") return `is already listed under its synonym ${match.matched_name}`;
+  return `has a similar name${match.matched_name !== match.scientific_name ? ` (${match.matched_name})` : ""}`;
+}
+
+// Warns while adding a species that it may already exist, under the same name, a synonym, or a near-identical name
+export default function SimilarSpeciesWarning({ name }: { name: string }) {
+  const [matches, setMatches] = useState<SimilarSpecies[]>([]);
+  const normalized = normalizeScientificName(name);
+
+  useEffect(() => {
+    if (!normalized) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      const supabase = createBrowserSupabaseClient();
+      void supabase.rpc("find_similar_species", { candidate: normalized }).then(({ data }) => {
+        if (!cancelled) setMatches(data ?? []);
+      });
+    }, LOOKUP_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [normalized]);
+
+  return (
+    <>
+      {normalized && normalized !== name.trim() && (
+        <p className="text-sm text-muted-foreground">Will be saved as {normalized}.</p>
+      )}
+      {matches.length > 0 && (
+        <div className="rounded border border-amber-500 p-2 text-sm text-amber-700 dark:text-amber-400">
+          <p className="font-medium">This species may already exist:</p>
+          <ul className="list-inside list-disc">
+            {matches.map((match) => (
+              <li key={match.id}>
+                <Link href={speciesPath(match)} target="_blank" className="italic underline">
+                  {match.scientific_name}
+                </Link>
+                {match.common_name && ` (${match.common_name})`} {matchDescription(match)}
+                {match.in_trash && ", in the trash"}.
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,23 +1,35 @@
 "use client";
 
-import { useState } from "react";
-import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import type { Database } from "@/lib/schema";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { Role } from "@/lib/roles";
+import { speciesThumbnail } from "@/lib/species-images";
+import type { SpeciesListItem } from "@/lib/species-query";
+import { speciesPath } from "@/lib/species-url";
+import Image from "next/image";
+import Link from "next/link";
+import { useState } from "react";
 
+import ConservationBadge from "./conservation-badge";
+import ConservationHistory from "./conservation-history";
 import DeleteSpeciesButton from "./delete";
 import EditSpeciesDialog from "./edit";
-
-type Species = Database["public"]["Tables"]["species"]["Row"];
+import { HighlightedText, SearchHeadline } from "./highlight";
+import SpeciesHistory from "./species-history";
 
 export default function SpeciesCard({
   species,
   userId,
+  role,
+  highlight,
   onChanged,
 }: {
-  species: Species;
+  species: SpeciesListItem;
   userId: string;
+  role: Role | null;
+  // Current search text; matching words in the names are highlighted
+  highlight?: string;
   onChanged?: () => void;
 }) {
   const [open, setOpen] = useState(false);
@@ -26,43 +38,79 @@ export default function SpeciesCard({
     <div className="m-4 w-72 min-w-72 flex-none rounded border-2 p-3 shadow">
       {species.image && (
         <div className="relative h-40 w-full">
-          <Image src={species.image} alt={species.scientific_name} fill style={{ objectFit: "cover" }} />
+          <Image
+            src={speciesThumbnail(species.image)}
+            alt={species.scientific_name}
+            fill
+            style={{ objectFit: "cover" }}
+          />
         </div>
       )}
-      <h3 className="mt-3 text-2xl font-semibold">{species.scientific_name}</h3>
-      <h4 className="text-lg font-light italic">{species.common_name}</h4>
-      <p>{species.description ? species.description.slice(0, 150).trim() + "..." : ""}</p>
+      <h3 className="mt-3 text-2xl font-semibold">
+        <HighlightedText text={species.scientific_name} search={highlight} />
+      </h3>
+      <h4 className="text-lg font-light italic">
+        {species.common_name && <HighlightedText text={species.common_name} search={highlight} />}
+      </h4>
+      {species.iucn_status && <ConservationBadge status={species.iucn_status} className="my-1" />}
+      <p>
+        {species.headline ? (
+          <SearchHeadline headline={species.headline} />
+        ) : species.description ? (
+          species.description.slice(0, 150).trim() + "..."
+        ) : (
+          ""
+        )}
+      </p>
 
       <Button className="mt-3 w-full" onClick={() => setOpen(true)}>
         Learn More
       </Button>
 
       <Dialog open={open} onOpenChange={setOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-screen overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{species.scientific_name}</DialogTitle>
+            <Link
+              href={speciesPath(species)}
+              className="text-sm text-muted-foreground underline-offset-4 hover:underline"
+            >
+              Open full page
+            </Link>
           </DialogHeader>
-          {species.image && (
-            <div className="relative h-40 w-full">
-              <Image src={species.image} alt={species.scientific_name} fill style={{ objectFit: "cover" }} />
-            </div>
-          )}
-          <h4 className="text-lg font-light italic">{species.common_name}</h4>
-          <p>
-            <strong>Kingdom:</strong> {species.kingdom}
-          </p>
-          <p>
-            <strong>Total Population:</strong> {species.total_population ?? "—"}
-          </p>
-          <p>
-            <strong>Description:</strong> {species.description ?? "—"}
-          </p>
+          <Tabs defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="space-y-2">
+              {species.image && (
+                <div className="relative h-40 w-full">
+                  <Image src={species.image} alt={species.scientific_name} fill style={{ objectFit: "cover" }} />
+                </div>
+              )}
+              <h4 className="text-lg font-light italic">{species.common_name}</h4>
+              <p>
+                <strong>Kingdom:</strong> {species.kingdom}
+              </p>
+              <p>
+                <strong>Total Population:</strong> {species.total_population ?? "—"}
+              </p>
+              <ConservationHistory species={species} userId={userId} role={role} />
+              <p>
+                <strong>Description:</strong> {species.description ?? "—"}
+              </p>
+            </TabsContent>
+            <TabsContent value="history">
+              <SpeciesHistory species={species} userId={userId} role={role} onReverted={onChanged} />
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
       <div className="mt-2 flex gap-2">
-        <EditSpeciesDialog userId={userId} species={species} onUpdated={onChanged} />
-        <DeleteSpeciesButton userId={userId} species={species} onDeleted={onChanged} />
+        <EditSpeciesDialog userId={userId} role={role} species={species} onUpdated={onChanged} />
+        <DeleteSpeciesButton userId={userId} role={role} species={species} onDeleted={onChanged} />
       </div>
     </div>
   );
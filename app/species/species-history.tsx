@@ -0,0 +1,172 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { canManageSpecies, type Role } from "@/lib/roles";
+import type { Database, Json } from "@/lib/schema";
+import {
+  asSnapshot,
+  fetchTaxonNames,
+  formatSpeciesField,
+  speciesFieldLabels,
+  speciesFields,
+  type SpeciesField,
+} from "@/lib/species-fields";
+import { useCallback, useEffect, useState } from "react";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Revision = Database["public"]["Tables"]["species_revisions"]["Row"] & {
+  profiles: { display_name: string } | null;
+};
+
+const operationLabels: Record<string, string> = {
+  INSERT: "Created",
+  UPDATE: "Edited",
+  DELETE: "Permanently deleted",
+};
+
+// Moving a species to the trash and back are updates of deleted_at
+function revisionTitle(revision: Revision): string {
+  if (revision.operation === "UPDATE" && revision.changed_fields.includes("deleted_at")) {
+    return asSnapshot(revision.new_data).deleted_at ? "Moved to trash" : "Restored from trash";
+  }
+  return operationLabels[revision.operation] ?? revision.operation;
+}
+
+// Fields to show for a revision: everything that was set on creation, otherwise only what changed
+function revisionFields(revision: Revision): SpeciesField[] {
+  const fields =
+    revision.operation === "INSERT"
+      ? speciesFields.filter((field) => asSnapshot(revision.new_data)[field] != null)
+      : revision.changed_fields;
+  return speciesFields.filter((field) => fields.includes(field));
+}
+
+export default function SpeciesHistory({
+  species,
+  userId,
+  role,
+  onReverted,
+}: {
+  species: Species;
+  userId?: string;
+  role?: Role | null;
+  onReverted?: () => void;
+}) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+  const [taxonNames, setTaxonNames] = useState<Map<number, string>>(new Map());
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    const supabase = createBrowserSupabaseClient();
+    const { data, error } = await supabase
+      .from("species_revisions")
+      .select("*, profiles(display_name)")
+      .eq("species_id", species.id)
+      .order("changed_at", { ascending: false })
+      .order("id", { ascending: false });
+
+    if (error) {
+      toast({ title: "Could not load change history.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setTaxonNames(
+      await fetchTaxonNames(
+        supabase,
+        data.flatMap((revision) => [asSnapshot(revision.old_data), asSnapshot(revision.new_data)]),
+      ),
+    );
+    setRevisions(data);
+  }, [species.id]);
+
+  useEffect(() => {
+    void loadRevisions();
+  }, [loadRevisions]);
+
+  const formatValue = (field: string, value: Json | undefined) => formatSpeciesField(field, value, taxonNames);
+
+  const handleRevert = async (revision: Revision) => {
+    setReverting(revision.id);
+    const supabase = createBrowserSupabaseClient();
+    const { error } = await supabase.rpc("revert_species", { revision: revision.id });
+    setReverting(null);
+
+    if (error) {
+      toast({ title: "Could not restore this version.", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Species restored!",
+      description: `${species.scientific_name} was restored to the version from ${new Date(
+        revision.changed_at,
+      ).toLocaleString()}.`,
+    });
+    await loadRevisions();
+    onReverted?.();
+  };
+
+  if (revisions === null) return <p className="text-sm text-muted-foreground">Loading...</p>;
+  if (revisions.length === 0) return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+
+  return (
+    <ol className="space-y-4">
+      {revisions.map((revision, index) => {
+        const oldData = asSnapshot(revision.old_data);
+        const newData = asSnapshot(revision.new_data);
+        // Revisions of a duplicate that was merged into this species describe that record, not this one
+        const mergedFrom =
+          (newData.id ?? oldData.id) !== species.id ? newData.scientific_name ?? oldData.scientific_name : null;
+        // The newest revision is the current state, so there is nothing to restore
+        const canRevert =
+          canManageSpecies(userId, role, species) && index > 0 && revision.new_data !== null && !mergedFrom;
+
+        return (
+          <li key={revision.id} className="rounded border p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p>
+                <strong>{revisionTitle(revision)}</strong>
+                {typeof mergedFrom === "string" && ` (merged duplicate ${mergedFrom})`}
+                {revision.reverted_from !== null && " (restored an earlier version)"} by{" "}
+                {revision.profiles?.display_name ?? "an unknown user"}
+                <span className="text-muted-foreground"> · {new Date(revision.changed_at).toLocaleString()}</span>
+              </p>
+              {canRevert && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleRevert(revision)}
+                  disabled={reverting !== null}
+                >
+                  {reverting === revision.id ? "Restoring..." : "Restore this version"}
+                </Button>
+              )}
+            </div>
+            {revision.operation !== "DELETE" && (
+              <dl className="mt-2 space-y-1">
+                {revisionFields(revision).map((field) => (
+                  <div key={field}>
+                    <dt className="text-muted-foreground">{speciesFieldLabels[field]}</dt>
+                    <dd className="whitespace-pre-wrap break-words">
+                      {revision.operation === "UPDATE" && (
+                        <>
+                          <del className="text-destructive">{formatValue(field, oldData[field])}</del>
+                          {" → "}
+                        </>
+                      )}
+                      <ins className="text-green-700 no-underline dark:text-green-400">
+                        {formatValue(field, newData[field])}
+                      </ins>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { TypographyH2 } from "@/components/ui/typography";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import { hasRole, type Role } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import {
+  speciesQueryToSearchParams,
+  type SpeciesListItem,
+  type SpeciesPage,
+  type SpeciesQuery,
+} from "@/lib/species-query";
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import AddSpeciesDialog from "./add-species-dialog";
+import ExportMenu from "./export-menu";
+import SpeciesFilter from "./filter";
+import SpeciesCard from "./species-card";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+async function loadPage(query: SpeciesQuery, cursor: string | null): Promise<SpeciesPage> {
+  const params = speciesQueryToSearchParams({ ...query, cursor: cursor ?? undefined });
+  const res = await fetch(`/api/species?${params.toString()}`);
+  const body = (await res.json()) as SpeciesPage | { error?: string };
+  if (!res.ok || !("species" in body)) {
+    throw new Error("error" in body && body.error ? body.error : "Could not load species.");
+  }
+  return body;
+}
+
+export default function SpeciesList({
+  userId,
+  role,
+  initialQuery,
+  initialPage,
+}: {
+  userId: string;
+  role: Role | null;
+  initialQuery: SpeciesQuery;
+  initialPage: SpeciesPage;
+}) {
+  const [query, setQuery] = useState<SpeciesQuery>(initialQuery);
+  const [species, setSpecies] = useState<SpeciesListItem[]>(initialPage.species);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialPage.nextCursor);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const canContribute = hasRole(role, "contributor");
+
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Mirrors `query` so the realtime subscription doesn't have to be recreated whenever the filters change
+  const queryRef = useRef<SpeciesQuery>(initialQuery);
+  // Mirrors `species` for the same reason
+  const speciesRef = useRef<SpeciesListItem[]>(initialPage.species);
+  useEffect(() => {
+    speciesRef.current = species;
+  }, [species]);
+  // Incremented on every reload so responses for a stale query are dropped
+  const requestId = useRef(0);
+
+  const reload = useCallback(async (q: SpeciesQuery) => {
+    const id = ++requestId.current;
+    setLoading(true);
+    try {
+      const page = await loadPage(q, null);
+      if (id !== requestId.current) return;
+      setSpecies(page.species);
+      setNextCursor(page.nextCursor);
+      setLoadError(null);
+    } catch (err) {
+      if (id === requestId.current) setLoadError((err as Error).message);
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) return;
+    const id = requestId.current;
+    setLoading(true);
+    try {
+      const page = await loadPage(query, nextCursor);
+      if (id !== requestId.current) return;
+      // Realtime reloads can race with scrolling, so never render the same species twice
+      setSpecies((prev) => {
+        const seen = new Set(prev.map((s) => s.id));
+        return [...prev, ...page.species.filter((s) => !seen.has(s.id))];
+      });
+      setNextCursor(page.nextCursor);
+      setLoadError(null);
+    } catch (err) {
+      if (id === requestId.current) setLoadError((err as Error).message);
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [nextCursor, loading, query]);
+
+  const handleQueryChange = useCallback(
+    (q: SpeciesQuery) => {
+      queryRef.current = q;
+      setQuery(q);
+      void reload(q);
+    },
+    [reload],
+  );
+
+  const refresh = useCallback(() => void reload(queryRef.current), [reload]);
+
+  // Infinite scroll: fetch the next page once the sentinel below the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  // Realtime: patch rows that are already on screen instead of refetching the whole catalog.
+  // New rows only affect the first page, so an INSERT reloads from the top. Moving a species to the trash is an
+  // UPDATE that sets deleted_at, so it removes the row like a DELETE. Restoring one clears deleted_at, but realtime
+  // only sends the id of the old row (species has RLS), so an update to a species that isn't on screen reloads like
+  // an INSERT in case it was a restore.
+  useEffect(() => {
+    const realtimeClient = createBrowserSupabaseClient();
+
+    const channel = realtimeClient
+      .channel("public:species")
+      .on<Species>("postgres_changes", { event: "*", schema: "public", table: "species" }, (payload) => {
+        if (payload.eventType === "UPDATE" && payload.new.deleted_at) {
+          setSpecies((prev) => prev.filter((s) => s.id !== payload.new.id));
+        } else if (payload.eventType === "UPDATE" && !speciesRef.current.some((s) => s.id === payload.new.id)) {
+          refresh();
+        } else if (payload.eventType === "UPDATE") {
+          setSpecies((prev) => prev.map((s) => (s.id === payload.new.id ? { ...s, ...payload.new } : s)));
+        } else if (payload.eventType === "DELETE") {
+          setSpecies((prev) => prev.filter((s) => s.id !== payload.old.id));
+        } else {
+          refresh();
+        }
+      })
+      .subscribe();
+
+    return () => {
+      void realtimeClient.removeChannel(channel);
+    };
+  }, [refresh]);
+
+  return (
+    <>
+      <div className="mb-5 flex flex-wrap items-center justify-between gap-4">
+        <TypographyH2>Species List</TypographyH2>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/species/taxonomy">Browse taxonomy</Link>
+          </Button>
+          {canContribute && (
+            <Button variant="outline" asChild>
+              <Link href="/species/import">Import</Link>
+            </Button>
+          )}
+          <ExportMenu query={query} />
+          {canContribute && <AddSpeciesDialog userId={userId} onSpeciesAdded={refresh} />}
+        </div>
+      </div>
+
+      <SpeciesFilter query={query} onQueryChange={handleQueryChange} />
+
+      <Separator className="my-4" />
+
+      <div className="flex flex-wrap justify-center">
+        {species.map((sp) => (
+          <SpeciesCard
+            key={sp.id}
+            species={sp}
+            userId={userId}
+            role={role}
+            highlight={query.search}
+            onChanged={refresh}
+          />
+        ))}
+      </div>
+
+      <div ref={sentinelRef} className="py-6 text-center text-sm text-muted-foreground">
+        {loadError
+          ? loadError
+          : loading
+            ? "Loading..."
+            : species.length === 0
+              ? "No species found."
+              : !nextCursor && "You've reached the end of the list."}
+      </div>
+    </>
+  );
+}
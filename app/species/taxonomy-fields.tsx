@@ -0,0 +1,45 @@
+"use client";
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { lineageRanks, rankLabels, type LineageRank, type Taxonomy } from "@/lib/taxonomy";
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+
+const placeholders: Record<LineageRank, string> = {
+  phylum: "Chordata",
+  class: "Mammalia",
+  order: "Rodentia",
+  family: "Caviidae",
+  genus: "Cavia",
+};
+
+// Phylum → genus inputs for the add/edit species forms. The form must keep them under a `taxonomy` object.
+export default function TaxonomyFields<T extends FieldValues & { taxonomy: Taxonomy }>({
+  control,
+}: {
+  control: Control<T>;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {lineageRanks.map((rank) => (
+        <FormField
+          key={rank}
+          control={control}
+          name={`taxonomy.${rank}` as FieldPath<T>}
+          render={({ field }) => {
+            const { value, ...rest } = field;
+            return (
+              <FormItem>
+                <FormLabel>{rankLabels[rank]}</FormLabel>
+                <FormControl>
+                  <Input value={(value as string | null) ?? ""} placeholder={placeholders[rank]} {...rest} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Separator } from "@/components/ui/separator";
+import { TypographyH2, TypographyP } from "@/components/ui/typography";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import { redirect } from "next/navigation";
+import TaxonomyTree from "./taxonomy-tree";
+
+export default async function TaxonomyPage() {
+  // Create supabase server component client and obtain user session from stored cookie
+  const supabase = createServerSupabaseClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    // this is a protected route - only users who are signed in can view this route
+    redirect("/");
+  }
+
+  // Only the kingdoms are loaded up front; deeper ranks are fetched as the user expands the tree
+  const { data: kingdoms, error } = await supabase.from("taxa").select().eq("rank", "kingdom").order("name");
+
+  return (
+    <>
+      <TypographyH2>Taxonomy</TypographyH2>
+      <TypographyP>Browse species by kingdom, phylum, class, order, family and genus.</TypographyP>
+      <Separator className="my-4" />
+      {error ? <TypographyP>{error.message}</TypographyP> : <TaxonomyTree kingdoms={kingdoms} />}
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { createBrowserSupabaseClient } from "@/lib/client-utils";
+import type { Database } from "@/lib/schema";
+import { rankLabels } from "@/lib/taxonomy";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useState } from "react";
+
+type Taxon = Database["public"]["Tables"]["taxa"]["Row"];
+type Species = Pick<Database["public"]["Tables"]["species"]["Row"], "id" | "scientific_name" | "common_name">;
+
+interface TaxonChildren {
+  taxa: Taxon[];
+  species: Species[];
+}
+
+async function loadChildren(taxon: Taxon): Promise<TaxonChildren> {
+  const supabase = createBrowserSupabaseClient();
+
+  let speciesQuery = supabase
+    .from("species")
+    .select("id, scientific_name, common_name")
+    .is("deleted_at", null)
+    .order("scientific_name");
+  // Species added before the taxonomy existed have no taxon yet, so list them under their kingdom
+  speciesQuery =
+    taxon.rank === "kingdom"
+      ? speciesQuery.or(`taxon_id.eq.${taxon.id},and(taxon_id.is.null,kingdom.eq.${taxon.name})`)
+      : speciesQuery.eq("taxon_id", taxon.id);
+
+  const [taxaResult, speciesResult] = await Promise.all([
+    supabase.from("taxa").select().eq("parent_id", taxon.id).order("name"),
+    speciesQuery,
+  ]);
+
+  if (taxaResult.error) throw new Error(taxaResult.error.message);
+  if (speciesResult.error) throw new Error(speciesResult.error.message);
+
+  return { taxa: taxaResult.data, species: speciesResult.data };
+}
+
+function TaxonNode({ taxon }: { taxon: Taxon }) {
+  const [expanded, setExpanded] = useState(false);
+  const [children, setChildren] = useState<TaxonChildren | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    setExpanded((v) => !v);
+    if (children) return;
+    try {
+      setChildren(await loadChildren(taxon));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <li>
+      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => void toggle()}>
+        <Chevron className="mr-1 h-4 w-4" />
+        <span className="mr-2 text-xs uppercase text-muted-foreground">{rankLabels[taxon.rank]}</span>
+        <span className={taxon.rank === "genus" ? "italic" : undefined}>{taxon.name}</span>
+      </Button>
+      {expanded && (
+        <ul className="ml-5 border-l pl-3">
+          {error && <li className="text-sm text-destructive">{error}</li>}
+          {!children && !error && <li className="text-sm text-muted-foreground">Loading...</li>}
+          {children?.taxa.map((child) => <TaxonNode key={child.id} taxon={child} />)}
+          {children?.species.map((sp) => (
+            <li key={sp.id} className="py-1 pl-2 text-sm">
+              <span className="italic">{sp.scientific_name}</span>
+              {sp.common_name && <span className="text-muted-foreground"> — {sp.common_name}</span>}
+            </li>
+          ))}
+          {children && children.taxa.length === 0 && children.species.length === 0 && (
+            <li className="text-sm text-muted-foreground">Nothing recorded under this taxon yet.</li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function TaxonomyTree({ kingdoms }: { kingdoms: Taxon[] }) {
+  return (
+    <ul>
+      {kingdoms.map((kingdom) => (
+        <TaxonNode key={kingdom.id} taxon={kingdom} />
+      ))}
+    </ul>
+  );
+}
@@ -8,6 +8,25 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
+    // Where the app is deployed, for absolute URLs such as those in link previews
+    SITE_URL: z.string().url().default("http://localhost:3000"),
+    // Bypasses RLS: only for server code that writes data no user may write, such as SpeciesBot's rate limits and
+    // shared answer cache
+    SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
+    // SpeciesBot: which LLM provider answers, and the model to ask (each provider has a default except
+    // "openai-compatible"). "mock" answers deterministically without network access, for tests and offline dev.
+    SPECIES_CHAT_PROVIDER: z.enum(["openai", "anthropic", "openai-compatible", "mock"]).default("openai"),
+    SPECIES_CHAT_MODEL: z.string().min(1).optional(),
+    // Base URL of an OpenAI-compatible API such as Ollama ("http://localhost:11434/v1") and its key, if it needs one
+    SPECIES_CHAT_BASE_URL: z.string().url().optional(),
+    SPECIES_CHAT_API_KEY: z.string().min(1).optional(),
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    OPENAI_ORG_ID: z.string().min(1).optional(),
+    OPENAI_PROJECT_ID: z.string().min(1).optional(),
+    ANTHROPIC_API_KEY: z.string().min(1).optional(),
+    // Where /api/chat rate limits are counted; defaults to memory in development and Postgres (which needs the service
+    // role key) in production
+    CHAT_RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).optional(),
   },
 
   /**
@@ -27,6 +46,17 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
+    SITE_URL: process.env.SITE_URL,
+    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    SPECIES_CHAT_PROVIDER: process.env.SPECIES_CHAT_PROVIDER,
+    SPECIES_CHAT_MODEL: process.env.SPECIES_CHAT_MODEL,
+    SPECIES_CHAT_BASE_URL: process.env.SPECIES_CHAT_BASE_URL,
+    SPECIES_CHAT_API_KEY: process.env.SPECIES_CHAT_API_KEY,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    OPENAI_ORG_ID: process.env.OPENAI_ORG_ID,
+    OPENAI_PROJECT_ID: process.env.OPENAI_PROJECT_ID,
+    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+    CHAT_RATE_LIMIT_STORE: process.env.CHAT_RATE_LIMIT_STORE,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
@@ -36,4 +66,6 @@ export const env = createEnv({
    * This is especially useful for Docker builds.
    */
   skipValidation: !!process.env.SKIP_ENV_VALIDATION,
+  // Treat `SOME_VAR=` in .env as unset, so optional variables can be left blank
+  emptyStringAsUndefined: true,
 });
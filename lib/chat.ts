@@ -0,0 +1,95 @@
+// Conversation format shared by the species chatbot page and /api/chat.
+import { z } from "zod";
+import { kingdomSchema, speciesDraftSchema, type SpeciesDraft } from "./species-schema";
+
+export const chatRoles = ["user", "assistant"] as const;
+export type ChatRole = (typeof chatRoles)[number];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Most recent messages loaded as context for a reply; the service trims them further to fit its token budget
+export const MAX_CHAT_MESSAGES = 50;
+export const MAX_CHAT_MESSAGE_CHARS = 8000;
+export const MAX_CHAT_TITLE_CHARS = 100;
+
+// /api/chat answers with the id of the chat the turn was saved to, which is new when no session was given
+export const CHAT_SESSION_HEADER = "X-Chat-Session-Id";
+// Whether the reply came from the shared answer cache: "hit", "miss", or "bypass" when it couldn't have
+export const CHAT_CACHE_HEADER = "X-Chat-Cache";
+
+// A new message for an existing chat, or the first message of a new one when sessionId is left out
+export const chatRequestSchema = z.object({
+  sessionId: z.number().int().positive().optional(),
+  message: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_CHARS),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+export const chatTitleSchema = z.string().trim().min(1).max(MAX_CHAT_TITLE_CHARS);
+
+const AUTO_TITLE_CHARS = 60;
+
+/** Titles a new chat after its first question, cut at a word boundary. */
+export function chatTitle(message: string): string {
+  const text = message.replace(/\s+/g, " ").trim();
+  if (text.length <= AUTO_TITLE_CHARS) return text || "New chat";
+  const cut = text.slice(0, AUTO_TITLE_CHARS);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > AUTO_TITLE_CHARS / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:!?-]+$/, "")}…`;
+}
+
+// Structured parts of a reply are sent as fenced code blocks of JSON, which the chat renders as cards. Keeping them in
+// the reply text means saved chats show them too.
+function jsonBlock(language: string, value: unknown): string {
+  return `\n\n\`\`\`${language}\n${JSON.stringify(value)}\n\`\`\`\n\n`;
+}
+
+function parseJsonBlock<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, text: string): T | null {
+  try {
+    const parsed = schema.safeParse(JSON.parse(text));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Drafts from the chatbot's draft_species tool, rendered as a button that opens the add species dialog
+export const SPECIES_DRAFT_LANGUAGE = "species-draft";
+
+export function speciesDraftBlock(draft: SpeciesDraft): string {
+  return jsonBlock(SPECIES_DRAFT_LANGUAGE, draft);
+}
+
+/** Reads a draft block's contents; null for anything that isn't a valid draft. */
+export function parseSpeciesDraft(text: string): SpeciesDraft | null {
+  return parseJsonBlock(speciesDraftSchema, text);
+}
+
+// Species a reply talks about, shown as cards: catalog records it drew on, by id, and other species it named. Names are
+// looked up when the cards are shown, so those the catalog has by then get a card and the rest a button to add them.
+export const SPECIES_REFS_LANGUAGE = "species-refs";
+
+export const speciesRefsSchema = z.object({
+  ids: z.array(z.number().int().positive()),
+  names: z.array(
+    z.object({
+      scientific_name: z.string().trim().min(1),
+      common_name: z.string().trim().min(1).nullable(),
+      // The kingdom of the species' relatives in our catalog, when it has any
+      kingdom: kingdomSchema.optional(),
+    }),
+  ),
+});
+
+export type SpeciesRefs = z.infer<typeof speciesRefsSchema>;
+
+export function speciesRefsBlock(refs: SpeciesRefs): string {
+  return jsonBlock(SPECIES_REFS_LANGUAGE, refs);
+}
+
+export function parseSpeciesRefs(text: string): SpeciesRefs | null {
+  return parseJsonBlock(speciesRefsSchema, text);
+}
@@ -0,0 +1,31 @@
+// IUCN Red List categories, most to least secure is LC → EX; DD means the species hasn't been assessed well enough.
+// https://www.iucnredlist.org/about/faqs
+import { z } from "zod";
+import type { Database } from "./schema";
+
+export type IucnCategory = Database["public"]["Enums"]["iucn_category"];
+
+export const iucnCategories = [
+  "LC",
+  "NT",
+  "VU",
+  "EN",
+  "CR",
+  "EW",
+  "EX",
+  "DD",
+] as const satisfies readonly IucnCategory[];
+
+export const iucnLabels: Record<IucnCategory, string> = {
+  LC: "Least Concern",
+  NT: "Near Threatened",
+  VU: "Vulnerable",
+  EN: "Endangered",
+  CR: "Critically Endangered",
+  EW: "Extinct in the Wild",
+  EX: "Extinct",
+  DD: "Data Deficient",
+};
+
+// Form value for an optional status; empty input means "not assessed"
+export const iucnStatusSchema = z.enum(iucnCategories).nullable();
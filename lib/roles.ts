@@ -0,0 +1,42 @@
+// User roles, mirroring the user_role enum and the policies in setup.sql. Keep them in increasing order of access.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { Database } from "./schema";
+
+export type Role = Database["public"]["Enums"]["user_role"];
+
+export const roles = ["viewer", "contributor", "moderator", "admin"] as const satisfies readonly Role[];
+
+export const roleSchema = z.enum(roles);
+
+export const roleLabels: Record<Role, string> = {
+  viewer: "Viewer",
+  contributor: "Contributor",
+  moderator: "Moderator",
+  admin: "Admin",
+};
+
+export const roleDescriptions: Record<Role, string> = {
+  viewer: "Can browse species but not change them.",
+  contributor: "Can add species, edit their own and suggest edits to others.",
+  moderator: "Can also edit and delete any species and review suggested edits.",
+  admin: "Can also manage user roles and reassign species authorship.",
+};
+
+export function hasRole(role: Role | null | undefined, required: Role) {
+  return !!role && roles.indexOf(role) >= roles.indexOf(required);
+}
+
+// Same rule as can_manage_species in setup.sql: contributors manage their own species, moderators manage every species
+export function canManageSpecies(
+  userId: string | undefined,
+  role: Role | null | undefined,
+  species: { author: string },
+) {
+  return hasRole(role, "moderator") || (hasRole(role, "contributor") && userId === species.author);
+}
+
+export async function fetchRole(supabase: SupabaseClient<Database>, userId: string): Promise<Role | null> {
+  const { data } = await supabase.from("profiles").select("role").eq("id", userId).maybeSingle();
+  return data?.role ?? null;
+}
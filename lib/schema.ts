@@ -3,24 +3,174 @@ export type Json = string | number | boolean | null | { [key: string]: Json | un
 export interface Database {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string;
+          value: Json;
+        };
+        Insert: {
+          key: string;
+          value: Json;
+        };
+        Update: {
+          key?: string;
+          value?: Json;
+        };
+        Relationships: [];
+      };
+      chat_messages: {
+        Row: {
+          content: string;
+          created_at: string;
+          id: number;
+          role: string;
+          session_id: number;
+        };
+        Insert: {
+          content: string;
+          created_at?: string;
+          id?: number;
+          role: string;
+          session_id: number;
+        };
+        Update: {
+          content?: string;
+          created_at?: string;
+          id?: number;
+          role?: string;
+          session_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_session_id_fkey";
+            columns: ["session_id"];
+            referencedRelation: "chat_sessions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      chat_response_cache: {
+        Row: {
+          created_at: string;
+          expires_at: string;
+          key: string;
+          reply: string;
+        };
+        Insert: {
+          created_at?: string;
+          expires_at: string;
+          key: string;
+          reply: string;
+        };
+        Update: {
+          created_at?: string;
+          expires_at?: string;
+          key?: string;
+          reply?: string;
+        };
+        Relationships: [];
+      };
+      chat_sessions: {
+        Row: {
+          created_at: string;
+          id: number;
+          title: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: number;
+          title?: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: number;
+          title?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "chat_sessions_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      chat_usage: {
+        Row: {
+          completion_tokens: number;
+          created_at: string;
+          id: number;
+          model: string;
+          prompt_tokens: number;
+          provider: string;
+          session_id: number | null;
+          user_id: string;
+        };
+        Insert: {
+          completion_tokens: number;
+          created_at?: string;
+          id?: number;
+          model: string;
+          prompt_tokens: number;
+          provider: string;
+          session_id?: number | null;
+          user_id: string;
+        };
+        Update: {
+          completion_tokens?: number;
+          created_at?: string;
+          id?: number;
+          model?: string;
+          prompt_tokens?: number;
+          provider?: string;
+          session_id?: number | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "chat_usage_session_id_fkey";
+            columns: ["session_id"];
+            referencedRelation: "chat_sessions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "chat_usage_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       profiles: {
         Row: {
           biography: string | null;
+          chat_daily_token_quota: number | null;
           display_name: string;
           email: string;
           id: string;
+          role: Database["public"]["Enums"]["user_role"];
         };
         Insert: {
           biography?: string | null;
+          chat_daily_token_quota?: number | null;
           display_name: string;
           email: string;
           id: string;
+          role?: Database["public"]["Enums"]["user_role"];
         };
         Update: {
           biography?: string | null;
+          chat_daily_token_quota?: number | null;
           display_name?: string;
           email?: string;
           id?: string;
+          role?: Database["public"]["Enums"]["user_role"];
         };
         Relationships: [
           {
@@ -31,35 +181,62 @@ export interface Database {
           },
         ];
       };
+      rate_limits: {
+        Row: {
+          bucket: string;
+          hits: number;
+          window_start: string;
+        };
+        Insert: {
+          bucket: string;
+          hits: number;
+          window_start: string;
+        };
+        Update: {
+          bucket?: string;
+          hits?: number;
+          window_start?: string;
+        };
+        Relationships: [];
+      };
       species: {
         Row: {
           author: string;
           common_name: string | null;
+          deleted_at: string | null;
           description: string | null;
           id: number;
           image: string | null;
+          iucn_status: Database["public"]["Enums"]["iucn_category"] | null;
           kingdom: Database["public"]["Enums"]["kingdom"];
           scientific_name: string;
+          taxon_id: number | null;
           total_population: number | null;
         };
         Insert: {
           author: string;
           common_name?: string | null;
+          deleted_at?: string | null;
           description?: string | null;
           id?: number;
           image?: string | null;
+          iucn_status?: Database["public"]["Enums"]["iucn_category"] | null;
           kingdom: Database["public"]["Enums"]["kingdom"];
           scientific_name: string;
+          taxon_id?: number | null;
           total_population?: number | null;
         };
         Update: {
           author?: string;
           common_name?: string | null;
+          deleted_at?: string | null;
           description?: string | null;
           id?: number;
           image?: string | null;
+          iucn_status?: Database["public"]["Enums"]["iucn_category"] | null;
           kingdom?: Database["public"]["Enums"]["kingdom"];
           scientific_name?: string;
+          taxon_id?: number | null;
           total_population?: number | null;
         };
         Relationships: [
@@ -69,6 +246,274 @@ export interface Database {
             referencedRelation: "profiles";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "species_taxon_id_fkey";
+            columns: ["taxon_id"];
+            referencedRelation: "taxa";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      species_assessments: {
+        Row: {
+          assessed_on: string;
+          author: string;
+          created_at: string;
+          id: number;
+          iucn_status: Database["public"]["Enums"]["iucn_category"] | null;
+          population: number | null;
+          species_id: number;
+        };
+        Insert: {
+          assessed_on?: string;
+          author: string;
+          created_at?: string;
+          id?: number;
+          iucn_status?: Database["public"]["Enums"]["iucn_category"] | null;
+          population?: number | null;
+          species_id: number;
+        };
+        Update: {
+          assessed_on?: string;
+          author?: string;
+          created_at?: string;
+          id?: number;
+          iucn_status?: Database["public"]["Enums"]["iucn_category"] | null;
+          population?: number | null;
+          species_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "species_assessments_author_fkey";
+            columns: ["author"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "species_assessments_species_id_fkey";
+            columns: ["species_id"];
+            referencedRelation: "species";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      species_edit_proposals: {
+        Row: {
+          base_data: Json;
+          changes: Json;
+          comment: string | null;
+          created_at: string;
+          id: number;
+          proposed_by: string;
+          reviewed_at: string | null;
+          species_id: number;
+          status: string;
+        };
+        Insert: {
+          base_data: Json;
+          changes: Json;
+          comment?: string | null;
+          created_at?: string;
+          id?: number;
+          proposed_by: string;
+          reviewed_at?: string | null;
+          species_id: number;
+          status?: string;
+        };
+        Update: {
+          base_data?: Json;
+          changes?: Json;
+          comment?: string | null;
+          created_at?: string;
+          id?: number;
+          proposed_by?: string;
+          reviewed_at?: string | null;
+          species_id?: number;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "species_edit_proposals_proposed_by_fkey";
+            columns: ["proposed_by"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "species_edit_proposals_species_id_fkey";
+            columns: ["species_id"];
+            referencedRelation: "species";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      species_images: {
+        Row: {
+          added_by: string | null;
+          author: string | null;
+          caption: string | null;
+          created_at: string;
+          id: number;
+          is_primary: boolean;
+          license: string | null;
+          license_url: string | null;
+          source_url: string | null;
+          species_id: number;
+          storage_path: string | null;
+          url: string;
+        };
+        Insert: {
+          added_by?: string | null;
+          author?: string | null;
+          caption?: string | null;
+          created_at?: string;
+          id?: number;
+          is_primary?: boolean;
+          license?: string | null;
+          license_url?: string | null;
+          source_url?: string | null;
+          species_id: number;
+          url: string;
+        };
+        Update: {
+          added_by?: string | null;
+          author?: string | null;
+          caption?: string | null;
+          created_at?: string;
+          id?: number;
+          is_primary?: boolean;
+          license?: string | null;
+          license_url?: string | null;
+          source_url?: string | null;
+          species_id?: number;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "species_images_added_by_fkey";
+            columns: ["added_by"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "species_images_species_id_fkey";
+            columns: ["species_id"];
+            referencedRelation: "species";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      species_revisions: {
+        Row: {
+          changed_at: string;
+          changed_by: string | null;
+          changed_fields: string[];
+          id: number;
+          new_data: Json | null;
+          old_data: Json | null;
+          operation: string;
+          reverted_from: number | null;
+          species_id: number;
+        };
+        Insert: {
+          changed_at?: string;
+          changed_by?: string | null;
+          changed_fields?: string[];
+          id?: number;
+          new_data?: Json | null;
+          old_data?: Json | null;
+          operation: string;
+          reverted_from?: number | null;
+          species_id: number;
+        };
+        Update: {
+          changed_at?: string;
+          changed_by?: string | null;
+          changed_fields?: string[];
+          id?: number;
+          new_data?: Json | null;
+          old_data?: Json | null;
+          operation?: string;
+          reverted_from?: number | null;
+          species_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "species_revisions_changed_by_fkey";
+            columns: ["changed_by"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "species_revisions_reverted_from_fkey";
+            columns: ["reverted_from"];
+            referencedRelation: "species_revisions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      species_synonyms: {
+        Row: {
+          added_by: string | null;
+          created_at: string;
+          id: number;
+          name: string;
+          species_id: number;
+        };
+        Insert: {
+          added_by?: string | null;
+          created_at?: string;
+          id?: number;
+          name: string;
+          species_id: number;
+        };
+        Update: {
+          added_by?: string | null;
+          created_at?: string;
+          id?: number;
+          name?: string;
+          species_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "species_synonyms_added_by_fkey";
+            columns: ["added_by"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "species_synonyms_species_id_fkey";
+            columns: ["species_id"];
+            referencedRelation: "species";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      taxa: {
+        Row: {
+          id: number;
+          name: string;
+          parent_id: number | null;
+          rank: Database["public"]["Enums"]["taxon_rank"];
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          parent_id?: number | null;
+          rank: Database["public"]["Enums"]["taxon_rank"];
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          parent_id?: number | null;
+          rank?: Database["public"]["Enums"]["taxon_rank"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "taxa_parent_id_fkey";
+            columns: ["parent_id"];
+            referencedRelation: "taxa";
+            referencedColumns: ["id"];
+          },
         ];
       };
     };
@@ -76,10 +521,179 @@ export interface Database {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      accept_species_edit_proposal: {
+        Args: {
+          proposal: number;
+        };
+        Returns: undefined;
+      };
+      can_manage_species: {
+        Args: {
+          species_id: number;
+        };
+        Returns: boolean;
+      };
+      chat_token_quota: {
+        Args: Record<PropertyKey, never>;
+        Returns: number | null;
+      };
+      chat_usage_by_day: {
+        Args: {
+          days?: number;
+        };
+        Returns: {
+          day: string;
+          requests: number;
+          prompt_tokens: number;
+          completion_tokens: number;
+        }[];
+      };
+      ensure_taxon_lineage: {
+        Args: {
+          kingdom_name: Database["public"]["Enums"]["kingdom"];
+          phylum_name?: string | null;
+          class_name?: string | null;
+          order_name?: string | null;
+          family_name?: string | null;
+          genus_name?: string | null;
+        };
+        Returns: number;
+      };
+      find_similar_species: {
+        Args: {
+          candidate: string;
+        };
+        Returns: {
+          id: number;
+          scientific_name: string;
+          common_name: string | null;
+          matched_name: string;
+          match_type: string;
+          in_trash: boolean;
+        }[];
+      };
+      has_role: {
+        Args: {
+          required: Database["public"]["Enums"]["user_role"];
+        };
+        Returns: boolean;
+      };
+      hit_rate_limit: {
+        Args: {
+          bucket_key: string;
+          max_hits: number;
+          window_seconds: number;
+        };
+        Returns: number;
+      };
+      import_species: {
+        Args: {
+          rows: Json;
+        };
+        Returns: {
+          author: string;
+          common_name: string | null;
+          deleted_at: string | null;
+          description: string | null;
+          id: number;
+          image: string | null;
+          iucn_status: Database["public"]["Enums"]["iucn_category"] | null;
+          kingdom: Database["public"]["Enums"]["kingdom"];
+          scientific_name: string;
+          taxon_id: number | null;
+          total_population: number | null;
+        }[];
+      };
+      match_chat_species: {
+        Args: {
+          message: string;
+          match_count?: number;
+        };
+        Returns: {
+          id: number;
+          scientific_name: string;
+          common_name: string | null;
+          kingdom: Database["public"]["Enums"]["kingdom"];
+          iucn_status: Database["public"]["Enums"]["iucn_category"] | null;
+          total_population: number | null;
+          description: string | null;
+          rank: number;
+        }[];
+      };
+      mentions_catalog_species: {
+        Args: {
+          message: string;
+        };
+        Returns: boolean;
+      };
+      merge_species: {
+        Args: {
+          duplicate: number;
+          kept: number;
+        };
+        Returns: undefined;
+      };
+      normalize_scientific_name: {
+        Args: {
+          name: string;
+        };
+        Returns: string;
+      };
+      purge_deleted_species: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      revert_species: {
+        Args: {
+          revision: number;
+        };
+        Returns: undefined;
+      };
+      search_species: {
+        Args: {
+          query: string;
+        };
+        Returns: {
+          id: number;
+          scientific_name: string;
+          common_name: string | null;
+          total_population: number | null;
+          kingdom: Database["public"]["Enums"]["kingdom"];
+          description: string | null;
+          image: string | null;
+          author: string;
+          taxon_id: number | null;
+          iucn_status: Database["public"]["Enums"]["iucn_category"] | null;
+          deleted_at: string | null;
+          rank: number;
+          headline: string | null;
+        }[];
+      };
+      species_search_document: {
+        Args: {
+          scientific_name: string;
+          common_name: string;
+          description: string;
+        };
+        Returns: unknown;
+      };
+      taxon_lineage: {
+        Args: {
+          taxon: number;
+        };
+        Returns: {
+          id: number;
+          name: string;
+          parent_id: number | null;
+          rank: Database["public"]["Enums"]["taxon_rank"];
+        }[];
+      };
     };
     Enums: {
+      iucn_category: "LC" | "NT" | "VU" | "EN" | "CR" | "EW" | "EX" | "DD";
       kingdom: "Animalia" | "Plantae" | "Fungi" | "Protista" | "Archaea" | "Bacteria";
+      taxon_rank: "kingdom" | "phylum" | "class" | "order" | "family" | "genus";
+      user_role: "viewer" | "contributor" | "moderator" | "admin";
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { normalizeScientificName } from "./scientific-name";
+
+describe("normalizeScientificName", () => {
+  it.each([
+    ["Panthera leo", "Panthera leo"],
+    ["  panthera  LEO ", "Panthera leo"],
+    ["\tPanthera leo\r\n", "Panthera leo"],
+    ["Panthera leo (Linnaeus, 1758)", "Panthera leo"],
+    ["Quercus robur L.", "Quercus robur"],
+    ["Rosa canina var. dumalis Baker", "Rosa canina var. dumalis"],
+    ["Panthera leo leo", "Panthera leo leo"],
+    ["Mentha × piperita", "Mentha × piperita"],
+    ["Mentha x piperita L.", "Mentha × piperita"],
+    ["Mentha ×piperita", "Mentha × piperita"],
+    ["× Cupressocyparis leylandii", "× Cupressocyparis leylandii"],
+    ["x cupressocyparis leylandii", "× Cupressocyparis leylandii"],
+    ["×Cupressocyparis leylandii", "× Cupressocyparis leylandii"],
+    ["Mentha x", "Mentha x"],
+    ["   ", ""],
+  ])("normalizes %j to %j", (name, normalized) => {
+    expect(normalizeScientificName(name)).toBe(normalized);
+  });
+});
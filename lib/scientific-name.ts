@@ -0,0 +1,41 @@
+// Canonical form of scientific names, so "panthera  LEO (Linnaeus, 1758)" and "Panthera leo" count as the same name.
+// Must match normalize_scientific_name in setup.sql, which applies it to every species and synonym that is saved.
+
+// Markers that can appear between the epithets of an infraspecific name, e.g. "Rosa canina var. dumalis"
+const rankMarkers = new Set(["subsp.", "ssp.", "var.", "subvar.", "f.", "forma", "cv."]);
+
+const EPITHET = /^[A-Za-z-]+$/;
+// Marks a hybrid, before the genus ("× Cupressocyparis leylandii") or the species epithet ("Mentha × piperita"). It's
+// often typed as "x", or attached to the name it marks.
+const HYBRID_MARKER = /^[×xX]$/;
+
+/**
+ * Trims and collapses whitespace, capitalizes the genus and lowercases the epithets, and drops the author citation.
+ * The species epithet may be typed in any case; after it, the first capitalized or non-alphabetic word starts the
+ * author citation ("Linnaeus, 1758", "(L.)", "Mill.") and everything from there on is dropped. Hybrid markers are
+ * kept, written "×".
+ */
+export function normalizeScientificName(name: string) {
+  const parts = name
+    .trim()
+    .split(/\s+/)
+    .flatMap((word) => (/^×./.test(word) ? ["×", word.slice(1)] : [word]));
+  const hybrid = parts.length > 1 && HYBRID_MARKER.test(parts[0] ?? "") ? parts.shift() : undefined;
+  const [genus, ...rest] = parts;
+  if (!genus) return "";
+
+  const words = [...(hybrid ? ["×"] : []), genus.charAt(0).toUpperCase() + genus.slice(1).toLowerCase()];
+  let speciesNext = true;
+  for (const [i, word] of rest.entries()) {
+    const lower = word.toLowerCase();
+    if (speciesNext && HYBRID_MARKER.test(word) && i < rest.length - 1) {
+      words.push("×");
+    } else if (rankMarkers.has(lower) || (EPITHET.test(word) && (speciesNext || word === lower))) {
+      words.push(lower);
+      speciesNext = false;
+    } else {
+      break;
+    }
+  }
+  return words.join(" ");
+}
@@ -2,6 +2,7 @@
 // For more info on how to avoid poisoning your server/client components: https://www.youtube.com/watch?v=BZlwtR9pDp4
 import { env } from "@/env.mjs";
 import { createServerClient } from "@supabase/ssr";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 import { cache } from "react";
 import "server-only";
@@ -18,3 +19,12 @@ export const createServerSupabaseClient = cache(() => {
   });
   return supabase;
 });
+
+// Acts as the service role, bypassing RLS, so never use it for anything a user's own client could do instead.
+// Null when SUPABASE_SERVICE_ROLE_KEY isn't set.
+export const createServiceSupabaseClient = cache((): SupabaseClient<Database> | null => {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient<Database>(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+});
@@ -0,0 +1,72 @@
+import "server-only";
+
+import { createServiceSupabaseClient } from "@/lib/server-utils";
+import { createHash } from "crypto";
+
+export type ChatCacheStatus = "hit" | "miss" | "bypass";
+
+// Long enough to absorb a burst of the same question, short enough that catalog edits show up within the day
+const CHAT_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+/** Reduces a question to what matters for its answer: case, spacing, quote styles and end punctuation don't. */
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.,;:!?]+|[\s.,;:!?]+$/g, "");
+}
+
+/**
+ * Cache key for the answer to a chat's first question. The provider, model and system prompt are part of it, so
+ * switching any of them (or editing the prompt) starts a fresh cache rather than serving answers written for another.
+ */
+export function chatCacheKey({
+  provider,
+  model,
+  system,
+  question,
+}: {
+  provider: string;
+  model: string;
+  system: string;
+  question: string;
+}): string {
+  return createHash("sha256")
+    .update(JSON.stringify([provider, model, system, normalizeQuestion(question)]))
+    .digest("hex");
+}
+
+/** Whether answers can be cached at all; they need the service role key (see chat_response_cache in setup.sql). */
+export function chatCacheEnabled(): boolean {
+  return createServiceSupabaseClient() !== null;
+}
+
+/** The cached answer for a key, if there is one that hasn't expired. Lookup failures count as misses. */
+export async function fetchCachedReply(key: string): Promise<string | null> {
+  const supabase = createServiceSupabaseClient();
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("chat_response_cache")
+    .select("reply")
+    .eq("key", key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) console.error("Could not read the chat cache:", error.message);
+  return data?.reply ?? null;
+}
+
+/** Caches an answer, replacing any earlier one for the same key. */
+export async function saveCachedReply(key: string, reply: string): Promise<void> {
+  const supabase = createServiceSupabaseClient();
+  if (!supabase) return;
+  const { error } = await supabase.from("chat_response_cache").upsert({
+    key,
+    reply,
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + CHAT_CACHE_TTL_MS).toISOString(),
+  });
+  if (error) console.error("Could not save to the chat cache:", error.message);
+}
@@ -0,0 +1,144 @@
+import "server-only";
+
+import type { ChatMessage } from "@/lib/chat";
+import {
+  ChatProviderError,
+  readEventData,
+  responseError,
+  type ChatProvider,
+  type ChatProviderRequest,
+  type ChatStreamEvent,
+  type ChatToolCall,
+  type ChatToolRound,
+} from "./provider";
+
+const ANTHROPIC_MESSAGES_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+// The messages API requires a cap on the reply length
+const MAX_REPLY_TOKENS = 1024;
+
+// Only the events that carry text, tool calls, token counts or an error matter here; the rest (ping, ...) are skipped
+type AnthropicEvent =
+  | { type: "message_start"; message?: { usage?: { input_tokens?: number } } }
+  | { type: "message_delta"; usage?: { output_tokens?: number } }
+  | { type: "content_block_start"; index: number; content_block?: { type?: string; id?: string; name?: string } }
+  | { type: "content_block_delta"; index: number; delta?: { type?: string; text?: string; partial_json?: string } }
+  | { type: "error"; error?: { message?: string } };
+function isAnthropicEvent(x: unknown): x is AnthropicEvent {
+  return typeof x === "object" && x !== null && "type" in x;
+}
+
+// Turns must alternate between the user and the assistant, so back-to-back messages from one side are joined
+function alternateTurns(messages: ChatMessage[]): ChatMessage[] {
+  const turns: ChatMessage[] = [];
+  for (const message of messages) {
+    const last = turns[turns.length - 1];
+    if (last?.role === message.role)
+      turns[turns.length - 1] = { ...last, content: `${last.content}\n\n${message.content}` };
+    else turns.push(message);
+  }
+  return turns;
+}
+
+function parseInput(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+// Earlier tool rounds, as the assistant's tool_use blocks followed by a user turn with the results
+function toolRoundMessages(rounds: ChatToolRound[]) {
+  return rounds.flatMap((round) => [
+    {
+      role: "assistant",
+      content: [
+        ...(round.text ? [{ type: "text", text: round.text }] : []),
+        ...round.calls.map((call) => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: parseInput(call.arguments),
+        })),
+      ],
+    },
+    {
+      role: "user",
+      content: round.results.map((result) => ({
+        type: "tool_result",
+        tool_use_id: result.id,
+        content: result.content,
+      })),
+    },
+  ]);
+}
+
+/** Anthropic's messages API. */
+export function createAnthropicProvider({ model, apiKey }: { model: string; apiKey: string }): ChatProvider {
+  return {
+    name: "anthropic",
+    model,
+    async *streamChat({
+      system,
+      messages,
+      tools,
+      toolRounds = [],
+      signal,
+    }: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+      const resp = await fetch(ANTHROPIC_MESSAGES_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        signal,
+        body: JSON.stringify({
+          model,
+          system,
+          max_tokens: MAX_REPLY_TOKENS,
+          temperature: 0.2,
+          stream: true,
+          messages: [...alternateTurns(messages), ...toolRoundMessages(toolRounds)],
+          ...(tools?.length
+            ? {
+                tools: tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  input_schema: tool.parameters,
+                })),
+              }
+            : {}),
+        }),
+      });
+      if (!resp.ok) throw await responseError(resp);
+      if (!resp.body) return;
+
+      // Tool calls by content block index; their input arrives as pieces of JSON
+      const calls = new Map<number, ChatToolCall>();
+      // The prompt is counted when the message starts; the reply's running total comes with each message_delta
+      const usage = { promptTokens: 0, completionTokens: 0 };
+      for await (const data of readEventData(resp.body)) {
+        const event: unknown = JSON.parse(data);
+        if (!isAnthropicEvent(event)) continue;
+        // Errors such as an overloaded model can also arrive partway through the stream, after a 200 response
+        if (event.type === "error") throw new ChatProviderError(502, event.error?.message ?? "Stream error");
+        if (event.type === "message_start") usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+        if (event.type === "message_delta")
+          usage.completionTokens = event.usage?.output_tokens ?? usage.completionTokens;
+        if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+          const { id = "", name = "" } = event.content_block;
+          calls.set(event.index, { id, name, arguments: "" });
+        }
+        if (event.type === "content_block_delta") {
+          if (event.delta?.type === "text_delta" && event.delta.text) yield { type: "text", text: event.delta.text };
+          const call = calls.get(event.index);
+          if (call && event.delta?.type === "input_json_delta") call.arguments += event.delta.partial_json ?? "";
+        }
+      }
+      if (calls.size > 0) yield { type: "tool_calls", calls: [...calls.values()] };
+      if (usage.promptTokens || usage.completionTokens) yield { type: "usage", usage };
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// LLM providers for SpeciesBot, chosen with SPECIES_CHAT_PROVIDER (see env.mjs and .env.example).
+import "server-only";
+
+import { env } from "@/env.mjs";
+import { createAnthropicProvider } from "./anthropic";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider, OPENAI_BASE_URL } from "./openai";
+import type { ChatProvider } from "./provider";
+
+export {
+  ChatProviderError,
+  estimateTokens,
+  estimateUsage,
+  type ChatProvider,
+  type ChatProviderRequest,
+  type ChatStreamEvent,
+  type ChatTool,
+  type ChatToolCall,
+  type ChatToolRound,
+  type ChatUsage,
+} from "./provider";
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+const DEFAULT_MODELS = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+} as const;
+
+/**
+ * The configured provider. Missing settings are reported as a message for the chat, so a half-configured deployment
+ * tells its users what to set rather than failing.
+ */
+export function getChatProvider(): Result<ChatProvider> {
+  switch (env.SPECIES_CHAT_PROVIDER) {
+    case "openai": {
+      if (!env.OPENAI_API_KEY) {
+        return {
+          data: null,
+          error: "This chatbot isn’t configured with an API key yet. Add OPENAI_API_KEY to `.env.local` and restart.",
+        };
+      }
+      const headers: Record<string, string> = {};
+      if (env.OPENAI_ORG_ID) headers["OpenAI-Organization"] = env.OPENAI_ORG_ID;
+      if (env.OPENAI_PROJECT_ID) headers["OpenAI-Project"] = env.OPENAI_PROJECT_ID;
+      const provider = createOpenAIProvider({
+        name: "openai",
+        baseUrl: OPENAI_BASE_URL,
+        model: env.SPECIES_CHAT_MODEL ?? DEFAULT_MODELS.openai,
+        apiKey: env.OPENAI_API_KEY,
+        headers,
+        includeUsage: true,
+      });
+      return { data: provider, error: null };
+    }
+    case "anthropic": {
+      if (!env.ANTHROPIC_API_KEY) {
+        return {
+          data: null,
+          error:
+            "This chatbot isn’t configured with an API key yet. Add ANTHROPIC_API_KEY to `.env.local` and restart.",
+        };
+      }
+      const provider = createAnthropicProvider({
+        model: env.SPECIES_CHAT_MODEL ?? DEFAULT_MODELS.anthropic,
+        apiKey: env.ANTHROPIC_API_KEY,
+      });
+      return { data: provider, error: null };
+    }
+    case "openai-compatible": {
+      if (!env.SPECIES_CHAT_BASE_URL || !env.SPECIES_CHAT_MODEL) {
+        return {
+          data: null,
+          error:
+            "This chatbot’s provider isn’t fully configured. Set SPECIES_CHAT_BASE_URL and SPECIES_CHAT_MODEL in `.env.local` and restart.",
+        };
+      }
+      const provider = createOpenAIProvider({
+        name: "openai-compatible",
+        baseUrl: env.SPECIES_CHAT_BASE_URL,
+        model: env.SPECIES_CHAT_MODEL,
+        apiKey: env.SPECIES_CHAT_API_KEY,
+      });
+      return { data: provider, error: null };
+    }
+    case "mock":
+      return { data: createMockProvider(), error: null };
+  }
+}
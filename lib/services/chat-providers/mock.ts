@@ -0,0 +1,61 @@
+import "server-only";
+
+import type { ChatProvider, ChatProviderRequest, ChatStreamEvent, ChatToolCall } from "./provider";
+
+// The first catalog record in the system prompt (see catalogPrompt), so mock replies exercise citations too
+const CATALOG_RECORD = /^Scientific name: (.+)$[\s\S]*?^Link: (\S+)$/m;
+// How much of a tool result to echo back
+const MAX_ECHOED_CHARS = 500;
+
+// Questions that make the mock call a tool when tools are offered: "list ..." searches, "draft ... for X" drafts X
+function mockToolCall(question: string): ChatToolCall | null {
+  if (/^\s*list\b/i.test(question)) return { id: "mock-call-1", name: "search_species", arguments: "{}" };
+  const draft = /\bdraft\b.*?\bfor (?:an? |the )?(.+?)[.?!]*$/i.exec(question);
+  if (draft?.[1]) {
+    const args = { scientific_name: draft[1], kingdom: "Animalia" };
+    return { id: "mock-call-1", name: "draft_species", arguments: JSON.stringify(args) };
+  }
+  return null;
+}
+
+function mockReply({ system, messages, toolRounds = [] }: ChatProviderRequest): string {
+  const question = messages[messages.length - 1]?.content ?? "";
+  const lastRound = toolRounds[toolRounds.length - 1];
+  if (lastRound) {
+    const results = lastRound.results.map((result) => result.content.slice(0, MAX_ECHOED_CHARS)).join(" ");
+    return `The mock called ${lastRound.calls.map((call) => call.name).join(", ")} and got: ${results}`;
+  }
+
+  const record = CATALOG_RECORD.exec(system);
+  return [
+    `This is a mock answer to “${question}”.`,
+    `The conversation has ${messages.length} message${messages.length === 1 ? "" : "s"}.`,
+    record ? `Our catalog has a record for [${record[1]}](${record[2]}).` : "No catalog records matched.",
+  ].join(" ");
+}
+
+/**
+ * Offline stand-in for a real provider: answers immediately, without network access, with a reply that depends only
+ * on the request. Use it to run /api/chat end to end in tests and local development.
+ */
+export function createMockProvider(): ChatProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async *streamChat(request: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+      const question = request.messages[request.messages.length - 1]?.content ?? "";
+      const call = request.tools?.length && !request.toolRounds?.length ? mockToolCall(question) : null;
+      const events: ChatStreamEvent[] = call
+        ? [{ type: "tool_calls", calls: [call] }]
+        : mockReply(request)
+            .split(/(?<= )/)
+            .map((word) => ({ type: "text", text: word }));
+
+      // Word by word, each a tick apart like a real stream
+      for await (const event of events) {
+        if (request.signal?.aborted) return;
+        yield event;
+      }
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import "server-only";
+
+import {
+  readEventData,
+  responseError,
+  type ChatProvider,
+  type ChatProviderRequest,
+  type ChatStreamEvent,
+  type ChatToolCall,
+  type ChatToolRound,
+} from "./provider";
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Tool calls arrive in pieces keyed by index: the id and name first, then the arguments a few characters at a time
+interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+interface OpenAIChatChunk {
+  choices?: { delta?: { content?: string | null; tool_calls?: OpenAIToolCallDelta[] } }[];
+  // Only on the last chunk, which has no choices, when usage was asked for with stream_options
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+function isOpenAIChatChunk(x: unknown): x is OpenAIChatChunk {
+  if (typeof x !== "object" || x === null) return false;
+  const obj = x as { choices?: unknown };
+  return obj.choices === undefined || Array.isArray(obj.choices);
+}
+
+// Earlier tool rounds, as the assistant's tool calls followed by one message per result
+function toolRoundMessages(rounds: ChatToolRound[]) {
+  return rounds.flatMap((round) => [
+    {
+      role: "assistant",
+      content: round.text || null,
+      tool_calls: round.calls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    },
+    ...round.results.map((result) => ({ role: "tool", tool_call_id: result.id, content: result.content })),
+  ]);
+}
+
+/**
+ * Chat completions API of OpenAI, or of any server that implements it (Ollama, vLLM, LM Studio, ...) when given its
+ * base URL. The API key is optional because local servers often don't need one. Some servers reject stream_options,
+ * so usage is only asked for with `includeUsage`; without a usage chunk, callers estimate the tokens.
+ */
+export function createOpenAIProvider({
+  name,
+  baseUrl,
+  model,
+  apiKey,
+  headers,
+  includeUsage = false,
+}: {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  includeUsage?: boolean;
+}): ChatProvider {
+  return {
+    name,
+    model,
+    async *streamChat({
+      system,
+      messages,
+      tools,
+      toolRounds = [],
+      signal,
+    }: ChatProviderRequest): AsyncGenerator<ChatStreamEvent> {
+      const resp = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...headers,
+        },
+        signal,
+        body: JSON.stringify({
+          model,
+          temperature: 0.2,
+          stream: true,
+          ...(includeUsage ? { stream_options: { include_usage: true } } : {}),
+          messages: [{ role: "system", content: system }, ...messages, ...toolRoundMessages(toolRounds)],
+          ...(tools?.length
+            ? {
+                tools: tools.map((tool) => ({
+                  type: "function",
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+              }
+            : {}),
+        }),
+      });
+      if (!resp.ok) throw await responseError(resp);
+      if (!resp.body) return;
+
+      const calls: ChatToolCall[] = [];
+      for await (const data of readEventData(resp.body)) {
+        if (data === "[DONE]") break;
+        const chunk: unknown = JSON.parse(data);
+        if (!isOpenAIChatChunk(chunk)) continue;
+        if (chunk.usage) {
+          const { prompt_tokens = 0, completion_tokens = 0 } = chunk.usage;
+          yield { type: "usage", usage: { promptTokens: prompt_tokens, completionTokens: completion_tokens } };
+        }
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) yield { type: "text", text: delta.content };
+        for (const part of delta?.tool_calls ?? []) {
+          const call = (calls[part.index] ??= { id: "", name: "", arguments: "" });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+      }
+      // Indexes start at 0 and are contiguous, but don't rely on it
+      const requested = calls.filter(Boolean);
+      if (requested.length > 0) yield { type: "tool_calls", calls: requested };
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import "server-only";
+
+import type { ChatMessage } from "@/lib/chat";
+
+/** A function the model may call; `parameters` is a JSON Schema object describing its arguments. */
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  // JSON text as the model wrote it, which may not be valid
+  arguments: string;
+}
+
+// One round of tool use: the calls the model made (after any text it wrote first) and what each returned
+export interface ChatToolRound {
+  text: string;
+  calls: ChatToolCall[];
+  results: { id: string; content: string }[];
+}
+
+export interface ChatProviderRequest {
+  system: string;
+  // The conversation so far, oldest first, ending with the user's question
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  // Tool use so far while answering the latest message, oldest first
+  toolRounds?: ChatToolRound[];
+  signal?: AbortSignal;
+}
+
+// Tokens billed for one request, as the provider counts them
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Tokens are estimated at ~4 characters each, which is close enough for English text
+const MESSAGE_OVERHEAD_TOKENS = 4;
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Usage for a request whose provider didn't report any: some don't (the mock, some OpenAI-compatible servers), and
+ * none do for replies cut short.
+ */
+export function estimateUsage(
+  { system, messages, toolRounds = [] }: ChatProviderRequest,
+  reply: string,
+  calls: ChatToolCall[] = [],
+): ChatUsage {
+  const prompt = [
+    system,
+    ...messages.map((m) => m.content),
+    ...toolRounds.flatMap((round) => [
+      round.text,
+      ...round.calls.map((call) => call.arguments),
+      ...round.results.map((result) => result.content),
+    ]),
+  ];
+  return {
+    promptTokens: prompt.reduce((sum, text) => sum + estimateTokens(text), 0),
+    completionTokens: estimateTokens(reply + calls.map((call) => call.arguments).join("")),
+  };
+}
+
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_calls"; calls: ChatToolCall[] }
+  | { type: "usage"; usage: ChatUsage };
+
+/** An LLM API that SpeciesBot can stream answers from. */
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  /**
+   * Yields the reply text as it is generated, then the tools the model wants called, if any, once it has finished
+   * asking for them, and the tokens used if the provider reports them. Throws ChatProviderError when the provider
+   * rejects the request, and whatever fetch throws on network failures or when `signal` is aborted.
+   */
+  streamChat(request: ChatProviderRequest): AsyncGenerator<ChatStreamEvent>;
+}
+
+export class ChatProviderError extends Error {
+  constructor(
+    readonly status: number,
+    readonly detail: string,
+  ) {
+    super(`Provider error (${status}): ${detail}`);
+    this.name = "ChatProviderError";
+  }
+}
+
+// OpenAI and Anthropic both report errors as { error: { message } }
+interface ErrorBody {
+  error?: { message?: string };
+}
+function isErrorBody(x: unknown): x is ErrorBody {
+  return typeof x === "object" && x !== null && "error" in (x as Record<string, unknown>);
+}
+
+/** Builds the error for a failed response, using the provider's own message when it sends one. */
+export async function responseError(resp: Response): Promise<ChatProviderError> {
+  const text = await resp.text().catch(() => "");
+  try {
+    const body: unknown = JSON.parse(text);
+    if (isErrorBody(body) && typeof body.error?.message === "string") {
+      return new ChatProviderError(resp.status, body.error.message);
+    }
+  } catch {
+    // Not JSON; report the body as it is
+  }
+  return new ChatProviderError(resp.status, text || resp.statusText);
+}
+
+/** Reads a server-sent event stream and yields the data of each event. */
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Fields are separated by newlines; keep a trailing partial line for the next read
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice("data:".length).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
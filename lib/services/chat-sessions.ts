@@ -0,0 +1,64 @@
+import "server-only";
+
+import { MAX_CHAT_MESSAGES, chatRoles, chatTitle, type ChatMessage, type ChatRole } from "@/lib/chat";
+import type { Database } from "@/lib/schema";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+function isChatRole(role: string): role is ChatRole {
+  return (chatRoles as readonly string[]).includes(role);
+}
+
+/** Starts a chat for the user, titled after its first message. */
+export async function startChatSession(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  firstMessage: string,
+): Promise<Result<number>> {
+  const { data, error } = await supabase
+    .from("chat_sessions")
+    .insert({ user_id: userId, title: chatTitle(firstMessage) })
+    .select("id")
+    .single();
+  if (error) return { data: null, error: error.message };
+  return { data: data.id, error: null };
+}
+
+/**
+ * Loads the most recent messages of a chat, oldest first. RLS hides other users' chats, so a chat that isn't the
+ * caller's reads as missing (`data` is null without an error).
+ */
+export async function fetchChatHistory(
+  supabase: SupabaseClient<Database>,
+  sessionId: number,
+): Promise<Result<ChatMessage[] | null>> {
+  const { data: session, error: sessionError } = await supabase
+    .from("chat_sessions")
+    .select("id")
+    .eq("id", sessionId)
+    .maybeSingle();
+  if (sessionError) return { data: null, error: sessionError.message };
+  if (!session) return { data: null, error: null };
+
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("role, content")
+    .eq("session_id", sessionId)
+    .order("id", { ascending: false })
+    .limit(MAX_CHAT_MESSAGES);
+  if (error) return { data: null, error: error.message };
+
+  const messages = data.reverse().flatMap(({ role, content }) => (isChatRole(role) ? [{ role, content }] : []));
+  return { data: messages, error: null };
+}
+
+export async function saveChatMessage(
+  supabase: SupabaseClient<Database>,
+  sessionId: number,
+  message: ChatMessage,
+): Promise<Result<null>> {
+  const { error } = await supabase.from("chat_messages").insert({ session_id: sessionId, ...message });
+  if (error) return { data: null, error: error.message };
+  return { data: null, error: null };
+}
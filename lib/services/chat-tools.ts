@@ -0,0 +1,152 @@
+import "server-only";
+
+import { speciesDraftBlock } from "@/lib/chat";
+import { iucnCategories, iucnLabels } from "@/lib/conservation";
+import { fetchRole, hasRole } from "@/lib/roles";
+import type { Database } from "@/lib/schema";
+import { kingdoms } from "@/lib/species-query";
+import { speciesDraftSchema } from "@/lib/species-schema";
+import { speciesPath } from "@/lib/species-url";
+import { lineageRanks } from "@/lib/taxonomy";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { ChatTool, ChatToolCall } from "./chat-providers";
+
+const MAX_SEARCH_RESULTS = 25;
+
+// Tools run with the signed-in user's Supabase client, so RLS applies to them exactly as it does in the app
+export const chatTools: ChatTool[] = [
+  {
+    name: "search_species",
+    description:
+      "Lists species in our catalog, optionally filtered by kingdom and IUCN status and matched against a search " +
+      "query (scientific name, common name or description). Use it for questions about what our catalog contains.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Words to search for; leave out to list every matching species." },
+        kingdom: { type: "string", enum: kingdoms },
+        iucn_statuses: {
+          type: "array",
+          items: { type: "string", enum: iucnCategories },
+          description:
+            'IUCN Red List codes to include, e.g. ["EN"] for endangered or ["VU", "EN", "CR"] for threatened.',
+        },
+        limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS, default: 10 },
+      },
+    },
+  },
+  {
+    name: "draft_species",
+    description:
+      "Drafts a new species record from what you know about it. The draft is shown to the user, who reviews, " +
+      "completes and saves it; nothing is saved by this tool. Check with search_species first that it isn't already " +
+      "in the catalog, and leave out any field you aren't sure of.",
+    parameters: {
+      type: "object",
+      properties: {
+        scientific_name: { type: "string" },
+        common_name: { type: "string" },
+        kingdom: { type: "string", enum: kingdoms },
+        iucn_status: { type: "string", enum: iucnCategories },
+        total_population: { type: "integer", minimum: 1 },
+        description: { type: "string", description: "A short encyclopedic description, a paragraph or two." },
+        taxonomy: {
+          type: "object",
+          properties: Object.fromEntries(lineageRanks.map((rank) => [rank, { type: "string" }])),
+        },
+      },
+      required: ["scientific_name", "kingdom"],
+    },
+  },
+];
+
+const searchArgsSchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  kingdom: z.enum(kingdoms).optional(),
+  iucn_statuses: z.array(z.enum(iucnCategories)).max(iucnCategories.length).optional(),
+  limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).default(10),
+});
+
+export interface ChatToolOutcome {
+  // What the model is told
+  content: string;
+  // Shown to the user as part of the reply, for results they act on themselves
+  display?: string;
+}
+
+function invalidArguments(error: z.ZodError): ChatToolOutcome {
+  const issue = error.issues[0];
+  return { content: `Invalid '${issue?.path.join(".") ?? "arguments"}': ${issue?.message ?? "bad value"}` };
+}
+
+async function searchSpecies(supabase: SupabaseClient<Database>, args: unknown): Promise<ChatToolOutcome> {
+  const parsed = searchArgsSchema.safeParse(args);
+  if (!parsed.success) return invalidArguments(parsed.error);
+  const { query, kingdom, iucn_statuses, limit } = parsed.data;
+
+  // search_species and the listing both leave out species in the trash
+  let request = query
+    ? supabase.rpc("search_species", { query })
+    : supabase.from("species").select().is("deleted_at", null).order("scientific_name");
+  if (kingdom) request = request.eq("kingdom", kingdom);
+  if (iucn_statuses?.length) request = request.in("iucn_status", iucn_statuses);
+  const { data, error } = await request.limit(limit);
+  if (error) return { content: `The search failed: ${error.message}` };
+
+  const species = data.map((s) => ({
+    scientific_name: s.scientific_name,
+    common_name: s.common_name,
+    kingdom: s.kingdom,
+    iucn_status: s.iucn_status && `${iucnLabels[s.iucn_status]} (${s.iucn_status})`,
+    total_population: s.total_population,
+    link: speciesPath(s),
+  }));
+  return {
+    content: JSON.stringify({
+      species,
+      note:
+        species.length === limit
+          ? `Only the first ${limit} matches are listed.`
+          : `${species.length} matching species.`,
+    }),
+  };
+}
+
+async function draftSpecies(supabase: SupabaseClient<Database>, args: unknown): Promise<ChatToolOutcome> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const role = session ? await fetchRole(supabase, session.user.id) : null;
+  if (!hasRole(role, "contributor")) {
+    return { content: "The user's role doesn't allow adding species, so no draft was made. Tell them so." };
+  }
+
+  const parsed = speciesDraftSchema.safeParse(args);
+  if (!parsed.success) return invalidArguments(parsed.error);
+  return {
+    content:
+      "The draft is shown to the user with a button to review and add it. It hasn't been saved. " +
+      "Don't repeat its fields; mention anything the user should double-check.",
+    display: speciesDraftBlock(parsed.data),
+  };
+}
+
+/** Runs a tool the model called. Failures are described in the outcome, so the model can explain or retry. */
+export async function runChatTool(supabase: SupabaseClient<Database>, call: ChatToolCall): Promise<ChatToolOutcome> {
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || "{}");
+  } catch {
+    return { content: "The arguments weren't valid JSON." };
+  }
+
+  switch (call.name) {
+    case "search_species":
+      return searchSpecies(supabase, args);
+    case "draft_species":
+      return draftSpecies(supabase, args);
+    default:
+      return { content: `There is no tool named '${call.name}'.` };
+  }
+}
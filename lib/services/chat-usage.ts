@@ -0,0 +1,79 @@
+import "server-only";
+
+import type { Database } from "@/lib/schema";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ChatUsage } from "./chat-providers";
+import { getRateLimiter } from "./rate-limit";
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+// Requests per minute to /api/chat. Users behind one NAT share an address, so the per-IP limit is higher.
+export const CHAT_RATE_LIMITS = {
+  user: { maxHits: 10, windowSeconds: 60 },
+  ip: { maxHits: 30, windowSeconds: 60 },
+};
+
+/**
+ * Counts a chat request against the user's and the client address's rate limits. Resolves to the seconds to wait
+ * before trying again, or 0 when the request can go ahead.
+ */
+export async function hitChatRateLimits(userId: string, ip: string | null): Promise<Result<number>> {
+  const limiter = getRateLimiter();
+  const hits = await Promise.all([
+    limiter.hit({ bucket: `chat:user:${userId}`, ...CHAT_RATE_LIMITS.user }),
+    // Without a known address every such request would share one bucket
+    ...(ip ? [limiter.hit({ bucket: `chat:ip:${ip}`, ...CHAT_RATE_LIMITS.ip })] : []),
+  ]);
+
+  let wait = 0;
+  for (const hit of hits) {
+    if (hit.error !== null) return hit;
+    wait = Math.max(wait, hit.data);
+  }
+  return { data: wait, error: null };
+}
+
+export interface ChatQuota {
+  // Tokens used today (UTC)
+  used: number;
+  // Daily allowance; null when there is none
+  limit: number | null;
+}
+
+export function usageTotal(day: { prompt_tokens: number; completion_tokens: number }): number {
+  return day.prompt_tokens + day.completion_tokens;
+}
+
+/** The signed in user's token use today against their daily allowance (see chat_token_quota in setup.sql). */
+export async function fetchChatQuota(supabase: SupabaseClient<Database>): Promise<Result<ChatQuota>> {
+  const [quota, today] = await Promise.all([
+    supabase.rpc("chat_token_quota"),
+    supabase.rpc("chat_usage_by_day", { days: 1 }),
+  ]);
+  if (quota.error) return { data: null, error: quota.error.message };
+  if (today.error) return { data: null, error: today.error.message };
+  return { data: { used: today.data.reduce((sum, day) => sum + usageTotal(day), 0), limit: quota.data }, error: null };
+}
+
+/** Records the tokens one request used, which count against the user's quota from then on. */
+export async function recordChatUsage(
+  supabase: SupabaseClient<Database>,
+  {
+    userId,
+    sessionId,
+    provider,
+    model,
+    usage,
+  }: { userId: string; sessionId: number; provider: string; model: string; usage: ChatUsage },
+): Promise<Result<null>> {
+  const { error } = await supabase.from("chat_usage").insert({
+    user_id: userId,
+    session_id: sessionId,
+    provider,
+    model,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+  });
+  if (error) return { data: null, error: error.message };
+  return { data: null, error: null };
+}
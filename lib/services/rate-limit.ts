@@ -0,0 +1,89 @@
+import "server-only";
+
+import { env } from "@/env.mjs";
+import type { Database } from "@/lib/schema";
+import { createServiceSupabaseClient } from "@/lib/server-utils";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+export interface RateLimit {
+  // What is being limited, e.g. "chat:user:<id>"
+  bucket: string;
+  maxHits: number;
+  windowSeconds: number;
+}
+
+/**
+ * Counts hits in fixed windows. `hit` counts one and resolves to the seconds until the bucket has room again, or 0
+ * when the hit is within the limit.
+ */
+export interface RateLimiter {
+  hit(limit: RateLimit): Promise<Result<number>>;
+}
+
+// The in-memory limiter's buckets, kept for the life of the server process. A bucket is re-inserted whenever its
+// window restarts, so the map's insertion order puts the oldest windows first.
+const memoryBuckets = new Map<string, { windowStart: number; hits: number }>();
+const MAX_MEMORY_BUCKETS = 10_000;
+
+/** Counts in memory. Fine for `next dev`, but every server instance counts on its own and restarts reset the counts. */
+export function createMemoryRateLimiter(): RateLimiter {
+  return {
+    hit({ bucket, maxHits, windowSeconds }) {
+      const now = Date.now();
+      const windowMs = windowSeconds * 1000;
+
+      let entry = memoryBuckets.get(bucket);
+      if (!entry || entry.windowStart <= now - windowMs) {
+        entry = { windowStart: now, hits: 0 };
+        memoryBuckets.delete(bucket);
+        memoryBuckets.set(bucket, entry);
+        // Past the cap, the buckets with the oldest windows go first
+        for (const key of memoryBuckets.keys()) {
+          if (memoryBuckets.size <= MAX_MEMORY_BUCKETS) break;
+          memoryBuckets.delete(key);
+        }
+      }
+      entry.hits++;
+      const wait = entry.hits <= maxHits ? 0 : Math.max(1, Math.ceil((entry.windowStart + windowMs - now) / 1000));
+      return Promise.resolve({ data: wait, error: null });
+    },
+  };
+}
+
+/**
+ * Counts in the rate_limits table (see hit_rate_limit in setup.sql), shared by every server instance. Callers pick the
+ * limits, so only the service role may call it.
+ */
+export function createPostgresRateLimiter(supabase: SupabaseClient<Database>): RateLimiter {
+  return {
+    async hit({ bucket, maxHits, windowSeconds }) {
+      const { data, error } = await supabase.rpc("hit_rate_limit", {
+        bucket_key: bucket,
+        max_hits: maxHits,
+        window_seconds: windowSeconds,
+      });
+      if (error) return { data: null, error: error.message };
+      return { data, error: null };
+    },
+  };
+}
+
+/**
+ * The limiter chosen with CHAT_RATE_LIMIT_STORE. Unless set, it is Postgres in production when the service role key is
+ * there to call it, and memory otherwise.
+ */
+export function getRateLimiter(): RateLimiter {
+  const service = createServiceSupabaseClient();
+  const store = env.CHAT_RATE_LIMIT_STORE ?? (env.NODE_ENV === "production" && service ? "postgres" : "memory");
+  if (store === "memory") return createMemoryRateLimiter();
+  if (service) return createPostgresRateLimiter(service);
+  return {
+    hit: () =>
+      Promise.resolve({
+        data: null,
+        error: "CHAT_RATE_LIMIT_STORE is postgres, which needs SUPABASE_SERVICE_ROLE_KEY. Set it and restart.",
+      }),
+  };
+}
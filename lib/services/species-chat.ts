@@ -1,118 +1,217 @@
-
+import type { ChatMessage } from "@/lib/chat";
+import type { Database } from "@/lib/schema";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import "server-only";
+import { chatCacheEnabled, chatCacheKey, saveCachedReply } from "./chat-cache";
+import {
+  ChatProviderError,
+  estimateTokens,
+  estimateUsage,
+  getChatProvider,
+  type ChatProvider,
+  type ChatProviderRequest,
+  type ChatToolCall,
+  type ChatToolRound,
+  type ChatUsage,
+} from "./chat-providers";
+import { chatTools, runChatTool } from "./chat-tools";
+import { catalogPrompt, findCatalogSpecies, speciesReferences, type CatalogSpecies } from "./species-context";
+import { classifyConversation } from "./topic-classifier";
 
 const SYSTEM_PROMPT = `You are SpeciesBot, an assistant that ONLY answers about animals and species:
 - Allowed: habitat, diet, behavior, conservation status (IUCN), taxonomy, range/distribution, predators/prey, speed/size, notable adaptations.
 - If asked something unrelated, say you only handle species/animal topics and invite a relevant question.
-- Be concise and accurate; include scientific/common names when relevant.`;
-
-const DEFAULT_MODEL =
-  process.env.SPECIES_CHAT_MODEL ?? "gpt-4o-mini";
-
-function buildHeaders(apiKey: string): Record<string, string> {
-  const h: Record<string, string> = {
-    Authorization: `Bearer ${apiKey}`,
-    "Content-Type": "application/json",
-  };
-  if (process.env.OPENAI_ORG_ID) h["OpenAI-Organization"] = process.env.OPENAI_ORG_ID!;
-  if (process.env.OPENAI_PROJECT_ID) h["OpenAI-Project"] = process.env.OPENAI_PROJECT_ID!;
-  return h;
+- Be concise and accurate; include scientific/common names when relevant.
+- Write scientific names in italics, after the common name if there is one, e.g. snow leopard (*Panthera uncia*), and use italics for nothing else.
+- Use the search_species tool for questions about which species our catalog has, and draft_species when the user asks you to draft or add a species.`;
+
+const OFF_TOPIC_REPLY =
+  "I’m a species-focused chatbot. Ask me about animals, habitats, diets, conservation status, taxonomy, or related topics.";
+
+// Rounds of tool calls allowed while answering one message, so a confused model can't loop forever
+const MAX_TOOL_ROUNDS = 3;
+
+// Prompt budget for the conversation history, which keeps requests well inside the model's context window
+const HISTORY_TOKEN_BUDGET = 3000;
+
+/** Keeps the most recent messages that fit the budget; the latest message is always kept. */
+function trimHistory(messages: ChatMessage[]): ChatMessage[] {
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (!m) continue;
+    const cost = estimateTokens(m.content);
+    if (kept.length > 0 && used + cost > HISTORY_TOKEN_BUDGET) break;
+    kept.unshift(m);
+    used += cost;
+  }
+  // Start on a user turn rather than an answer to a question that was trimmed away
+  while (kept.length > 1 && kept[0]?.role === "assistant") kept.shift();
+  return kept;
 }
 
-/** quick guard to avoid burning tokens on off-topic chats */
-function isSpeciesTopic(text: string): boolean {
-  return /(species|animal|habitat|diet|conservation|endangered|iucn|taxonomy|genus|family|range|distribution|ecosystem|predator|prey|speed|nocturnal|diurnal|extinct|status)/i.test(
-    text
-  );
+/** The messages the model sees: trimmed of surrounding space and of older turns that don't fit the budget. */
+function conversation(messages: ChatMessage[]): ChatMessage[] {
+  return trimHistory(messages.map((m) => ({ ...m, content: m.content.trim() })));
 }
 
-
-interface OpenAIErrorBody {
-  error?: { message?: string; type?: string | null };
-}
-function isOpenAIErrorBody(x: unknown): x is OpenAIErrorBody {
-  return typeof x === "object" && x !== null && "error" in (x as Record<string, unknown>);
+export interface ChatPrompt {
+  // The instructions, followed by the records of catalog species the conversation is about
+  system: string;
+  // Those records, which the answer's species cards link to
+  catalog: CatalogSpecies[];
 }
 
-interface OpenAIChatMessage {
-  role?: "system" | "user" | "assistant";
-  content?: string | null;
-}
-interface OpenAIChatChoice {
-  message?: OpenAIChatMessage;
+/**
+ * The system prompt for answering a conversation. Finding its catalog species takes a database query, so build it once
+ * per reply and pass it to both replyCacheKey and generateResponse.
+ */
+export async function buildChatPrompt(
+  supabase: SupabaseClient<Database>,
+  messages: ChatMessage[],
+): Promise<ChatPrompt> {
+  const catalog = await findCatalogSpecies(supabase, conversation(messages));
+  const context = catalogPrompt(catalog);
+  return { system: context ? `${SYSTEM_PROMPT}\n\n${context}` : SYSTEM_PROMPT, catalog };
 }
-interface OpenAIChatCompletion {
-  choices?: OpenAIChatChoice[];
-}
-function isOpenAIChatCompletion(x: unknown): x is OpenAIChatCompletion {
-  if (typeof x !== "object" || x === null) return false;
-  const obj = x as { choices?: unknown };
-  return obj.choices === undefined || Array.isArray(obj.choices);
+
+/**
+ * Key for caching the answer to a conversation (see chat-cache.ts), or null when it can't be cached. Only a chat's
+ * first question qualifies: follow-ups depend on what was said before. The key covers the catalog records sent with
+ * the question, so editing a species the question is about starts a fresh answer.
+ */
+export function replyCacheKey(messages: ChatMessage[], { system }: ChatPrompt): string | null {
+  const question = messages.length === 1 ? messages[0]?.content.trim() : undefined;
+  if (!question || !chatCacheEnabled()) return null;
+  const provider = getChatProvider();
+  if (provider.error !== null) return null;
+  return chatCacheKey({ provider: provider.data.name, model: provider.data.model, system, question });
 }
 
+interface GenerateOptions {
+  // Aborting cancels the upstream request and ends the stream quietly
+  signal?: AbortSignal;
+  // Told the tokens each provider request used, the topic check's included
+  onUsage?: (provider: ChatProvider, usage: ChatUsage) => void;
+  // From replyCacheKey; a complete answer that needed no tools is cached under it
+  cacheKey?: string | null;
+}
 
-export async function generateResponse(message: string): Promise<string> {
-  const msg = message.trim();
+/**
+ * Streams the answer to the last message of a conversation as text chunks, from the provider configured in env.mjs.
+ * Earlier messages give the model context for follow-ups, trimmed to a token budget. `prompt` (from buildChatPrompt)
+ * includes the catalog species the conversation is about, and the answer ends with cards for the species it used or
+ * named (see speciesReferences). Problems (off-topic questions, a missing API key, provider errors) are reported as text
+ * rather than thrown, so the chat always shows a reply.
+ */
+export async function* generateResponse(
+  supabase: SupabaseClient<Database>,
+  messages: ChatMessage[],
+  prompt: ChatPrompt,
+  { signal, onUsage, cacheKey }: GenerateOptions = {},
+): AsyncGenerator<string> {
+  const history = conversation(messages);
+  const msg = history[history.length - 1]?.content ?? "";
   if (!msg) {
-    return "Ask about a species—e.g., *“What’s the habitat and diet of the snow leopard?”*";
+    yield "Ask about a species—e.g., *“What’s the habitat and diet of the snow leopard?”*";
+    return;
   }
 
-  if (!isSpeciesTopic(msg)) {
-    return "I’m a species-focused chatbot. Ask me about animals, habitats, diets, conservation status, taxonomy, or related topics.";
+  const provider = getChatProvider();
+  if (!(await classifyConversation(supabase, history, provider.data, { signal, onUsage }))) {
+    if (signal?.aborted) return;
+    yield OFF_TOPIC_REPLY;
+    return;
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return "This chatbot isn’t configured with an API key yet. Add OPENAI_API_KEY to `.env.local` and restart.";
+  if (provider.error !== null) {
+    yield provider.error;
+    return;
   }
 
+  let produced = false;
+  let reply = "";
+  const toolRounds: ChatToolRound[] = [];
   try {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: buildHeaders(apiKey),
-      body: JSON.stringify({
-        model: DEFAULT_MODEL,
-        temperature: 0.2,
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: msg },
-        ],
-      }),
-    });
-
-    if (!resp.ok) {
-      let detail = "";
+    // Each round streams the model's text; when it asks for tools, they run and the model continues with the results
+    for (;;) {
+      let text = "";
+      let calls: ChatToolCall[] = [];
+      let reported = false;
+      const request: ChatProviderRequest = {
+        system: prompt.system,
+        messages: history,
+        tools: chatTools,
+        toolRounds,
+        signal,
+      };
       try {
-        const j: unknown = await resp.json();
-        detail =
-          isOpenAIErrorBody(j) && typeof j.error?.message === "string"
-            ? j.error.message
-            : JSON.stringify(j);
-      } catch {
-        detail = await resp.text().catch(() => "");
+        for await (const event of provider.data.streamChat(request)) {
+          if (event.type === "usage") {
+            reported = true;
+            onUsage?.(provider.data, event.usage);
+            continue;
+          }
+          if (event.type === "tool_calls") {
+            calls = event.calls;
+            continue;
+          }
+          // Keep what the model says after a tool call apart from what it said before
+          const chunk = !text && reply && !/\s$/.test(reply) ? `\n\n${event.text}` : event.text;
+          produced = true;
+          text += event.text;
+          reply += chunk;
+          yield chunk;
+        }
+      } finally {
+        // Stopped replies are billed up to where they stopped, but providers only report usage once they finish
+        if (!reported && (text || calls.length > 0 || signal?.aborted)) {
+          onUsage?.(provider.data, estimateUsage(request, text, calls));
+        }
       }
-      if (process.env.NODE_ENV !== "production") {
-        return `Provider error (${resp.status}): ${detail}`;
+      if (calls.length === 0 || toolRounds.length === MAX_TOOL_ROUNDS) break;
+
+      const results: ChatToolRound["results"] = [];
+      for (const call of calls) {
+        const outcome = await runChatTool(supabase, call);
+        results.push({ id: call.id, content: outcome.content });
+        if (outcome.display) {
+          produced = true;
+          reply += outcome.display;
+          yield outcome.display;
+        }
       }
-      return "Sorry—my provider returned an error. Please try again.";
+      toolRounds.push({ text, calls, results });
     }
 
-    const raw: unknown = await resp.json();
-    if (!isOpenAIChatCompletion(raw)) {
-      return "Sorry—I couldn’t parse the provider response.";
+    if (!produced) {
+      yield "Sorry—I couldn’t generate a response.";
+      return;
     }
 
-    const content =
-      typeof raw.choices?.[0]?.message?.content === "string"
-        ? raw.choices[0].message.content.trim()
-        : undefined;
-
-    return content ?? "Sorry—I couldn’t generate a response.";
+    const references = await speciesReferences(supabase, reply, prompt.catalog);
+    // Tool results depend on who asked (drafts need the contributor role), so only plain answers are shared
+    if (cacheKey && toolRounds.length === 0) await saveCachedReply(cacheKey, reply + references);
+    if (references) yield references;
   } catch (err) {
+    // The user stopped the response; whatever was streamed so far stands
+    if (signal?.aborted) return;
+
+    // Keep a partial answer apart from the error that cut it short
+    const separator = produced ? "\n\n" : "";
+    if (err instanceof ChatProviderError) {
+      console.error(`${provider.data.name} error:`, err.message);
+      yield process.env.NODE_ENV !== "production"
+        ? `${separator}${err.message}`
+        : `${separator}Sorry—my provider returned an error. Please try again.`;
+      return;
+    }
     if (process.env.NODE_ENV !== "production") {
       console.error("generateResponse error:", err);
-      return "Network or provider error (see server logs).";
+      yield `${separator}Network or provider error (see server logs).`;
+      return;
     }
-    return "Sorry—I ran into a temporary issue generating a response.";
+    yield `${separator}Sorry—I ran into a temporary issue generating a response.`;
   }
 }
@@ -0,0 +1,62 @@
+import { parseSpeciesRefs } from "@/lib/chat";
+import type { Database } from "@/lib/schema";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { speciesReferences, type CatalogSpecies } from "./species-context";
+
+vi.mock("server-only", () => ({}));
+
+// Answers the genus lookup with the given catalog species
+function catalogClient(rows: { scientific_name: string; kingdom: string }[] = []) {
+  const or = vi.fn(() => Promise.resolve({ data: rows, error: null }));
+  const client = { from: () => ({ select: () => ({ or }) }) };
+  return { supabase: client as unknown as SupabaseClient<Database>, or };
+}
+
+const snowLeopard: CatalogSpecies = {
+  id: 1,
+  scientific_name: "Panthera uncia",
+  common_name: "Snow leopard",
+  kingdom: "Animalia",
+  iucn_status: "VU",
+  total_population: 4000,
+  description: null,
+  rank: 1,
+};
+
+async function namedSpecies(reply: string, catalog: CatalogSpecies[] = [], rows?: Parameters<typeof catalogClient>[0]) {
+  const block = await speciesReferences(catalogClient(rows).supabase, reply, catalog);
+  return parseSpeciesRefs(block.replace(/^\s*```[\w-]*\n|```\s*$/g, ""))?.names;
+}
+
+describe("speciesReferences", () => {
+  it.each([
+    ["The red panda (*Ailurus fulgens*) lives in forests.", "red panda"],
+    ["It is smaller than the snow leopard (*Panthera uncia*).", "snow leopard"],
+    ["Compared with jaguars (*Panthera onca*), they climb more.", "jaguars"],
+    ["1. **Clouded leopard** (*Neofelis nebulosa*)", "Clouded leopard"],
+    ["In the wild, lions hunt zebras (*Equus quagga*).", null],
+    ["Its relative *Neofelis nebulosa* is smaller.", null],
+  ])("takes the common name of %j as %j", async (reply, commonName) => {
+    const names = await namedSpecies(reply);
+    expect(names?.[0]?.common_name).toBe(commonName);
+  });
+
+  it("gives named species the kingdom of their relatives in the catalog", async () => {
+    const names = await namedSpecies(
+      "Both the snow leopard and the leopard (*Panthera pardus*) are big cats, unlike *Quercus robur*.",
+      [snowLeopard],
+      [{ scientific_name: "Quercus alba", kingdom: "Plantae" }],
+    );
+    expect(names).toEqual([
+      { scientific_name: "Panthera pardus", common_name: "leopard", kingdom: "Animalia" },
+      { scientific_name: "Quercus robur", common_name: null, kingdom: "Plantae" },
+    ]);
+  });
+
+  it("only looks up genera the conversation's catalog records don't cover", async () => {
+    const { supabase, or } = catalogClient();
+    await speciesReferences(supabase, "The leopard (*Panthera pardus*) and *Fungus imaginarius*.", [snowLeopard]);
+    expect(or).toHaveBeenCalledWith("scientific_name.like.Fungus *");
+  });
+});
@@ -0,0 +1,168 @@
+import "server-only";
+
+import { speciesRefsBlock, type ChatMessage, type SpeciesRefs } from "@/lib/chat";
+import { iucnLabels } from "@/lib/conservation";
+import type { Database } from "@/lib/schema";
+import { speciesPath } from "@/lib/species-url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type CatalogSpecies = Database["public"]["Functions"]["match_chat_species"]["Returns"][number];
+
+// Enough records to cover a comparison question without crowding out the conversation
+const MAX_CONTEXT_SPECIES = 4;
+// Recent questions searched together, so "how many are left?" still finds the species asked about before
+const SEARCH_TURNS = 3;
+const MAX_DESCRIPTION_CHARS = 600;
+
+/**
+ * Looks up catalog species the conversation is about, best match first. Lookup failures are logged and answered
+ * with no records, so the bot can still reply from general knowledge.
+ */
+export async function findCatalogSpecies(
+  supabase: SupabaseClient<Database>,
+  messages: ChatMessage[],
+): Promise<CatalogSpecies[]> {
+  const query = messages
+    .filter((m) => m.role === "user")
+    .slice(-SEARCH_TURNS)
+    .map((m) => m.content)
+    .join("\n");
+
+  const { data, error } = await supabase.rpc("match_chat_species", {
+    message: query,
+    match_count: MAX_CONTEXT_SPECIES,
+  });
+  if (error) {
+    console.error("Could not look up species for the chat:", error.message);
+    return [];
+  }
+  return data;
+}
+
+function describe(species: CatalogSpecies): string {
+  const lines = [
+    `Scientific name: ${species.scientific_name}`,
+    species.common_name && `Common name: ${species.common_name}`,
+    `Kingdom: ${species.kingdom}`,
+    species.iucn_status && `IUCN status: ${iucnLabels[species.iucn_status]} (${species.iucn_status})`,
+    species.total_population !== null && `Total population: ${species.total_population.toLocaleString("en-US")}`,
+    species.description &&
+      `Description: ${
+        species.description.length > MAX_DESCRIPTION_CHARS
+          ? `${species.description.slice(0, MAX_DESCRIPTION_CHARS)}…`
+          : species.description
+      }`,
+    `Link: ${speciesPath(species)}`,
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+/** System prompt section with the records the model should ground its answer in and cite. */
+export function catalogPrompt(species: CatalogSpecies[]): string | null {
+  if (species.length === 0) return null;
+  return [
+    "Our species catalog has these records that may be relevant. When the question is about one of them, base the",
+    "answer on its record (prefer its description, status and population over your own knowledge, and say so if they",
+    "differ), and cite it the first time you mention it as a markdown link using its Link, e.g. [Snow leopard](/species/1-panthera-uncia).",
+    "Ignore records that aren't relevant to the question.",
+    "",
+    ...species.map((s, i) => `[${i + 1}]\n${describe(s)}`),
+  ].join("\n");
+}
+
+// Cards under one reply
+const MAX_REFERENCED_SPECIES = 4;
+// Scientific names in italics, as the system prompt asks for them, noting whether they are in parentheses after a
+// common name: "snow leopard (*Panthera uncia*)". Bold text is left alone.
+const ITALIC_SCIENTIFIC_NAME = /(\( ?)?(?<![\w*])[*_]([A-Z][a-z]+(?: [a-z]+){1,2})[*_](?![\w*])/g;
+// Words that can't be part of the common name before a parenthesis, so "compared with jaguars (*Panthera onca*)"
+// names "jaguars"
+const NOT_IN_COMMON_NAMES = new Set(
+  (
+    "a an the and or but nor of with without than like unlike as to from for by in on at into about between among " +
+    "such including both either this that these those its their is are was were"
+  ).split(" "),
+);
+// A longer phrase is more likely a clause than a name ("lions hunt zebras"), so it is left out
+const MAX_COMMON_NAME_WORDS = 2;
+
+/** The common name written right before a parenthesized scientific name, or null when there isn't a clear one. */
+function commonNameBefore(text: string): string | null {
+  // Words, and runs of anything else (punctuation, markdown, list numbers), which end the name. A bold name such as
+  // "**Snow leopard** (*Panthera uncia*)" ends in markdown, though.
+  const tokens = text.replace(/(?:\*\*|__)\s*$/, "").match(/[A-Za-z][A-Za-z'-]*|[^\sA-Za-z]+/g) ?? [];
+  const words: string[] = [];
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i] ?? "";
+    if (!/^[A-Za-z]/.test(token) || NOT_IN_COMMON_NAMES.has(token.toLowerCase())) break;
+    words.unshift(token);
+    if (words.length > MAX_COMMON_NAME_WORDS) return null;
+  }
+  return words.length > 0 ? words.join(" ") : null;
+}
+
+function genusOf(scientificName: string): string {
+  return scientificName.split(" ")[0] ?? "";
+}
+
+/**
+ * Kingdoms of the given genera, taken from catalog species in them, so a species that isn't in the catalog yet can be
+ * offered with the kingdom of its relatives. Lookup failures leave the kingdoms out.
+ */
+async function genusKingdoms(
+  supabase: SupabaseClient<Database>,
+  genera: string[],
+): Promise<Map<string, CatalogSpecies["kingdom"]>> {
+  if (genera.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from("species")
+    .select("scientific_name, kingdom")
+    .or(genera.map((genus) => `scientific_name.like.${genus} *`).join(","));
+  if (error) {
+    console.error("Could not look up kingdoms for species references:", error.message);
+    return new Map();
+  }
+  return new Map(data.map((s) => [genusOf(s.scientific_name), s.kingdom]));
+}
+
+/**
+ * The species a reply talks about, as a block for the chat to show as cards (see SPECIES_REFS_LANGUAGE): catalog
+ * records it links to or mentions by name, then other species it names, with the kingdom of their genus when the
+ * catalog has it. Empty when there are none, so answers that aren't about particular species stay plain.
+ */
+export async function speciesReferences(
+  supabase: SupabaseClient<Database>,
+  reply: string,
+  species: CatalogSpecies[],
+): Promise<string> {
+  const text = reply.toLowerCase();
+  const ids = species
+    .filter(
+      (s) =>
+        text.includes(speciesPath(s)) ||
+        text.includes(s.scientific_name.toLowerCase()) ||
+        (!!s.common_name && text.includes(s.common_name.toLowerCase())),
+    )
+    .map((s) => s.id);
+
+  const room = Math.max(0, MAX_REFERENCED_SPECIES - ids.length);
+  const seen = new Set(species.map((s) => s.scientific_name.toLowerCase()));
+  const names: SpeciesRefs["names"] = [];
+  for (const match of reply.matchAll(ITALIC_SCIENTIFIC_NAME)) {
+    const [, parenthesis, scientificName] = match;
+    if (!scientificName || seen.has(scientificName.toLowerCase())) continue;
+    seen.add(scientificName.toLowerCase());
+    const commonName = parenthesis ? commonNameBefore(reply.slice(0, match.index)) : null;
+    names.push({ scientific_name: scientificName, common_name: commonName });
+  }
+  names.splice(room);
+
+  if (ids.length === 0 && names.length === 0) return "";
+
+  const kingdoms = new Map(species.map((s) => [genusOf(s.scientific_name), s.kingdom]));
+  const unknown = [...new Set(names.map((name) => genusOf(name.scientific_name)))].filter((g) => !kingdoms.has(g));
+  for (const [genus, kingdom] of await genusKingdoms(supabase, unknown)) kingdoms.set(genus, kingdom);
+  for (const name of names) name.kingdom = kingdoms.get(genusOf(name.scientific_name));
+
+  return speciesRefsBlock({ ids: ids.slice(0, MAX_REFERENCED_SPECIES), names });
+}
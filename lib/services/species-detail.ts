@@ -0,0 +1,66 @@
+import "server-only";
+
+import type { Database } from "@/lib/schema";
+import { createServerSupabaseClient } from "@/lib/server-utils";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { cache } from "react";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+export type RelatedSpecies = Pick<Species, "id" | "scientific_name" | "common_name" | "image" | "iucn_status">;
+
+const RELATED_LIMIT = 6;
+
+/**
+ * Loads a species with its author's profile, or null if it doesn't exist or is in the trash.
+ * Cached per request so the detail page and its metadata share one query.
+ */
+export const fetchSpeciesDetail = cache(async (id: number) => {
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from("species")
+    .select("*, profiles(display_name, biography)")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) return { data: null, error: error.message };
+  return { data, error: null };
+});
+
+/**
+ * Species related to the given one: those attached to the same taxon (usually the same genus) first, then others
+ * from the same kingdom, newest first.
+ */
+export async function fetchRelatedSpecies(
+  supabase: SupabaseClient<Database>,
+  species: Pick<Species, "id" | "kingdom" | "taxon_id">,
+): Promise<RelatedSpecies[]> {
+  const columns = "id, scientific_name, common_name, image, iucn_status";
+  const related: RelatedSpecies[] = [];
+
+  if (species.taxon_id !== null) {
+    const { data } = await supabase
+      .from("species")
+      .select(columns)
+      .eq("taxon_id", species.taxon_id)
+      .neq("id", species.id)
+      .is("deleted_at", null)
+      .order("scientific_name")
+      .limit(RELATED_LIMIT);
+    related.push(...(data ?? []));
+  }
+
+  if (related.length < RELATED_LIMIT) {
+    const { data } = await supabase
+      .from("species")
+      .select(columns)
+      .eq("kingdom", species.kingdom)
+      .not("id", "in", `(${[species.id, ...related.map((s) => s.id)].join(",")})`)
+      .is("deleted_at", null)
+      .order("id", { ascending: false })
+      .limit(RELATED_LIMIT - related.length);
+    related.push(...(data ?? []));
+  }
+
+  return related;
+}
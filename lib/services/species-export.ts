@@ -0,0 +1,229 @@
+import "server-only";
+
+import { iucnLabels } from "@/lib/conservation";
+import type { Database } from "@/lib/schema";
+import type { SpeciesExportQuery } from "@/lib/species-export";
+import { lineageRanks, lineageToTaxonomy, type Taxonomy } from "@/lib/taxonomy";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { csvFormatRows } from "d3";
+import { strToU8, zipSync, type Zippable } from "fflate";
+import { decodeCursor, fetchSpeciesPage } from "./species-list";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+type Taxon = Database["public"]["Tables"]["taxa"]["Row"];
+
+// Rows have the same shape the import page accepts, so an export can be re-imported elsewhere
+export type ExportedSpecies = Omit<Species, "author" | "taxon_id" | "deleted_at"> & { taxonomy: Taxonomy };
+
+export const MAX_EXPORT_ROWS = 10000;
+
+// Page size used while walking the listing; stays under the API's default row limit
+const EXPORT_PAGE_SIZE = 500;
+// Ids per `in` filter when loading taxa, to keep the request URL short
+const TAXA_CHUNK_SIZE = 200;
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+// Loads the given taxa and all of their ancestors, one rank per round trip
+async function fetchTaxa(supabase: SupabaseClient<Database>, taxonIds: number[]): Promise<Result<Map<number, Taxon>>> {
+  const taxa = new Map<number, Taxon>();
+  let pending = [...new Set(taxonIds)];
+
+  while (pending.length > 0) {
+    const parents = new Set<number>();
+    for (let i = 0; i < pending.length; i += TAXA_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("taxa")
+        .select()
+        .in("id", pending.slice(i, i + TAXA_CHUNK_SIZE));
+      if (error) return { data: null, error: error.message };
+      for (const taxon of data) {
+        taxa.set(taxon.id, taxon);
+        if (taxon.parent_id !== null) parents.add(taxon.parent_id);
+      }
+    }
+    pending = [...parents].filter((id) => !taxa.has(id));
+  }
+  return { data: taxa, error: null };
+}
+
+function taxonomyOf(taxa: Map<number, Taxon>, taxonId: number | null): Taxonomy {
+  const lineage: Taxon[] = [];
+  for (let taxon = taxa.get(taxonId ?? -1); taxon; taxon = taxa.get(taxon.parent_id ?? -1)) {
+    lineage.push(taxon);
+  }
+  return lineageToTaxonomy(lineage);
+}
+
+/**
+ * Loads every species matching the export's filters, in the same order as the species list, along with its
+ * taxonomy. Fails rather than truncating when more than MAX_EXPORT_ROWS species match.
+ */
+export async function fetchSpeciesForExport(
+  supabase: SupabaseClient<Database>,
+  query: SpeciesExportQuery,
+): Promise<Result<ExportedSpecies[]>> {
+  const species: Species[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchSpeciesPage(
+      supabase,
+      { ...query, limit: EXPORT_PAGE_SIZE },
+      cursor ? decodeCursor(cursor) : null,
+    );
+    if (page.error !== null) return { data: null, error: page.error };
+
+    species.push(...page.data.species);
+    if (species.length > MAX_EXPORT_ROWS) {
+      return { data: null, error: `Exports are limited to ${MAX_EXPORT_ROWS} species. Narrow the filters and retry.` };
+    }
+    cursor = page.data.nextCursor;
+  } while (cursor);
+
+  const taxa = await fetchTaxa(
+    supabase,
+    species.flatMap((s) => (s.taxon_id === null ? [] : [s.taxon_id])),
+  );
+  if (taxa.error !== null) return { data: null, error: taxa.error };
+
+  // Search results carry extra columns (rank, headline), so pick the exported fields explicitly
+  return {
+    data: species.map((s) => ({
+      id: s.id,
+      scientific_name: s.scientific_name,
+      common_name: s.common_name,
+      kingdom: s.kingdom,
+      taxonomy: taxonomyOf(taxa.data, s.taxon_id),
+      iucn_status: s.iucn_status,
+      total_population: s.total_population,
+      image: s.image,
+      description: s.description,
+    })),
+    error: null,
+  };
+}
+
+export function speciesToCsv(species: ExportedSpecies[]): string {
+  const header = [
+    "id",
+    "scientific_name",
+    "common_name",
+    "kingdom",
+    ...lineageRanks,
+    "iucn_status",
+    "total_population",
+    "image",
+    "description",
+  ];
+  const rows = species.map((s) => [
+    String(s.id),
+    s.scientific_name,
+    s.common_name ?? "",
+    s.kingdom,
+    ...lineageRanks.map((rank) => s.taxonomy[rank] ?? ""),
+    s.iucn_status ?? "",
+    s.total_population?.toString() ?? "",
+    s.image ?? "",
+    s.description ?? "",
+  ]);
+  return csvFormatRows([header, ...rows]);
+}
+
+export function speciesToJson(species: ExportedSpecies[]): string {
+  return JSON.stringify(species, null, 2);
+}
+
+/* ---- Darwin Core Archive ---- */
+
+const DWC = "http://rs.tdwg.org/dwc/terms/";
+
+interface ArchiveFile {
+  location: string;
+  rowType: string;
+  // Term URIs in column order; the first column is the taxon id (the core id for extensions)
+  terms: string[];
+  rows: (string | null)[][];
+}
+
+// The archive is declared with no field enclosure, so tabs and line breaks inside values must be flattened
+function dwcaText(file: ArchiveFile): string {
+  const clean = (value: string | null) => (value ?? "").replace(/[\t\r\n]+/g, " ");
+  const header = ["id", ...file.terms.slice(1).map((term) => term.slice(term.lastIndexOf("/") + 1))];
+  return [header, ...file.rows].map((row) => row.map(clean).join("\t")).join("\n") + "\n";
+}
+
+function metaXml(core: ArchiveFile, extensions: ArchiveFile[]): string {
+  const section = (tag: "core" | "extension", file: ArchiveFile) =>
+    [
+      `  <${tag} encoding="UTF-8" fieldsTerminatedBy="\\t" linesTerminatedBy="\\n" fieldsEnclosedBy="" ` +
+        `ignoreHeaderLines="1" rowType="${file.rowType}">`,
+      `    <files><location>${file.location}</location></files>`,
+      tag === "core" ? `    <id index="0"/>` : `    <coreid index="0"/>`,
+      ...file.terms.map((term, index) =>
+        tag === "extension" && index === 0 ? null : `    <field index="${index}" term="${term}"/>`,
+      ),
+      `  </${tag}>`,
+    ]
+      .filter((line) => line !== null)
+      .join("\n");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<archive xmlns="http://rs.tdwg.org/dwc/text/">`,
+    section("core", core),
+    ...extensions.map((file) => section("extension", file)),
+    `</archive>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds a Darwin Core Archive with one Taxon core row per species, plus the GBIF Distribution extension for IUCN
+ * status and the Multimedia extension for images. Population counts have no Taxon term and are left out.
+ */
+export function speciesToDarwinCoreArchive(species: ExportedSpecies[]): Uint8Array {
+  const core: ArchiveFile = {
+    location: "taxon.txt",
+    rowType: `${DWC}Taxon`,
+    terms: [
+      `${DWC}taxonID`,
+      `${DWC}scientificName`,
+      `${DWC}taxonRank`,
+      `${DWC}kingdom`,
+      ...lineageRanks.map((rank) => `${DWC}${rank}`),
+      `${DWC}vernacularName`,
+      `${DWC}taxonRemarks`,
+    ],
+    rows: species.map((s) => [
+      String(s.id),
+      s.scientific_name,
+      "species",
+      s.kingdom,
+      ...lineageRanks.map((rank) => s.taxonomy[rank]),
+      s.common_name,
+      s.description,
+    ]),
+  };
+
+  // threatStatus uses the lowercase IUCN category names from the GBIF vocabulary
+  const distribution: ArchiveFile = {
+    location: "distribution.txt",
+    rowType: "http://rs.gbif.org/terms/1.0/Distribution",
+    terms: [`${DWC}taxonID`, "http://iucn.org/terms/threatStatus"],
+    rows: species.flatMap((s) => (s.iucn_status ? [[String(s.id), iucnLabels[s.iucn_status].toLowerCase()]] : [])),
+  };
+
+  const multimedia: ArchiveFile = {
+    location: "multimedia.txt",
+    rowType: "http://rs.gbif.org/terms/1.0/Multimedia",
+    terms: [`${DWC}taxonID`, "http://purl.org/dc/terms/identifier", "http://purl.org/dc/terms/type"],
+    rows: species.flatMap((s) => (s.image ? [[String(s.id), s.image, "StillImage"]] : [])),
+  };
+
+  const archive: Zippable = { "meta.xml": strToU8(metaXml(core, [distribution, multimedia])) };
+  for (const file of [core, distribution, multimedia]) {
+    archive[file.location] = strToU8(dwcaText(file));
+  }
+  return zipSync(archive);
+}
@@ -0,0 +1,109 @@
+import "server-only";
+
+import type { Database } from "@/lib/schema";
+import { createServiceSupabaseClient } from "@/lib/server-utils";
+import {
+  MAX_IMAGE_BYTES,
+  SPECIES_IMAGES_BUCKET,
+  imageVariants,
+  isRehostable,
+  type ImageVariant,
+  type UploadedImage,
+} from "@/lib/species-images";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+
+type Result<T> = { data: T; error: null } | { data: null; error: string };
+
+/** Downloads an image from one of the rehostable hosts so it can be stored in our bucket. */
+export async function fetchRemoteImage(url: string): Promise<Result<Buffer>> {
+  if (!isRehostable(url)) return { data: null, error: "Only images from Wikimedia can be imported." };
+
+  // Wikimedia rejects requests without a descriptive User-Agent: https://meta.wikimedia.org/wiki/User-Agent_policy
+  const res = await fetch(url, { redirect: "error", headers: { "User-Agent": "T4SG-Biodiversity-Hub/1.0" } });
+  if (!res.ok) return { data: null, error: `Could not download the image (${res.status}).` };
+  if (!res.headers.get("content-type")?.startsWith("image/")) {
+    return { data: null, error: "The URL doesn't point to an image." };
+  }
+  if (Number(res.headers.get("content-length") ?? 0) > MAX_IMAGE_BYTES) {
+    return { data: null, error: "The image is too large." };
+  }
+
+  const buffer = Buffer.from(await res.arrayBuffer());
+  if (buffer.byteLength > MAX_IMAGE_BYTES) return { data: null, error: "The image is too large." };
+  return { data: buffer, error: null };
+}
+
+/**
+ * Resizes an image into the thumbnail and full variants (WebP, EXIF orientation applied, never upscaled) and uploads
+ * them to the user's folder in the species images bucket. Storage policies only allow writes to one's own folder.
+ */
+export async function storeSpeciesImage(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  input: Buffer,
+): Promise<Result<UploadedImage>> {
+  let variants: [ImageVariant, Buffer][];
+  try {
+    variants = await Promise.all(
+      (Object.entries(imageVariants) as [ImageVariant, number][]).map(async ([variant, size]) => {
+        const output = await sharp(input)
+          .rotate()
+          .resize(size, size, { fit: "inside", withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer();
+        return [variant, output] as [ImageVariant, Buffer];
+      }),
+    );
+  } catch {
+    return { data: null, error: "The file is not a supported image." };
+  }
+
+  const folder = `${userId}/${crypto.randomUUID()}`;
+  const bucket = supabase.storage.from(SPECIES_IMAGES_BUCKET);
+  const urls: Partial<Record<ImageVariant, string>> = {};
+
+  for (const [variant, output] of variants) {
+    const path = `${folder}/${variant}.webp`;
+    const { error } = await bucket.upload(path, output, { contentType: "image/webp", cacheControl: "31536000" });
+    if (error) return { data: null, error: error.message };
+    urls[variant] = bucket.getPublicUrl(path).data.publicUrl;
+  }
+
+  return { data: { image: urls.full ?? "", thumbnail: urls.thumb ?? "" }, error: null };
+}
+
+/**
+ * Removes a deleted gallery image's variants from the bucket, unless another gallery row still shows the same upload.
+ * Storage policies only let users delete from their own folder. Someone who manages the species removes files from the
+ * folder of whoever added the image with the service role key (without it, those files stay behind); anything else is
+ * removed with the user's own permissions.
+ */
+export async function removeStoredSpeciesImage(
+  supabase: SupabaseClient<Database>,
+  image: { species_id: number; storage_path: string; added_by: string | null },
+): Promise<Result<null>> {
+  const { count, error } = await supabase
+    .from("species_images")
+    .select("id", { count: "exact", head: true })
+    .eq("storage_path", image.storage_path);
+  if (error) return { data: null, error: error.message };
+  if (count) return { data: null, error: null };
+
+  // Uploads are stored as <user id>/<upload id>/<variant>.webp
+  const folder = image.storage_path.slice(0, image.storage_path.lastIndexOf("/"));
+  let client = supabase;
+  if (image.added_by && folder.startsWith(`${image.added_by}/`)) {
+    const { data: canManage, error: manageError } = await supabase.rpc("can_manage_species", {
+      species_id: image.species_id,
+    });
+    if (manageError) return { data: null, error: manageError.message };
+    if (canManage) client = createServiceSupabaseClient() ?? supabase;
+  }
+
+  const { error: removeError } = await client.storage
+    .from(SPECIES_IMAGES_BUCKET)
+    .remove(Object.keys(imageVariants).map((variant) => `${folder}/${variant}.webp`));
+  if (removeError) return { data: null, error: removeError.message };
+  return { data: null, error: null };
+}
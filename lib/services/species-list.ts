@@ -0,0 +1,118 @@
+import "server-only";
+
+import type { Database } from "@/lib/schema";
+import type { SpeciesListItem, SpeciesPage, SpeciesQuery, SpeciesSort } from "@/lib/species-query";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/** Position of the last row of a page: the value of the sort column plus the id used as a tie-breaker. */
+export interface SpeciesCursor {
+  v: string | number | null;
+  id: number;
+}
+
+type SearchResult = Database["public"]["Functions"]["search_species"]["Returns"][number];
+
+const SORTS = {
+  relevance: { column: "rank", ascending: false, nullable: false },
+  id: { column: "id", ascending: false, nullable: false },
+  name: { column: "scientific_name", ascending: true, nullable: false },
+  population: { column: "total_population", ascending: false, nullable: true },
+} as const satisfies Record<SpeciesSort, { column: keyof SearchResult; ascending: boolean; nullable: boolean }>;
+
+export function encodeCursor(cursor: SpeciesCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Returns null for anything that isn't a cursor we produced, so callers can answer with a 400. */
+export function decodeCursor(raw: string): SpeciesCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof parsed !== "object" || parsed === null) return null;
+    const { v, id } = parsed as Record<string, unknown>;
+    if (typeof id !== "number" || !Number.isInteger(id)) return null;
+    if (v !== null && typeof v !== "string" && typeof v !== "number") return null;
+    return { v, id };
+  } catch {
+    return null;
+  }
+}
+
+// Values inside PostgREST logic trees (`or=(...)`) must be double-quoted if they contain reserved characters
+// https://postgrest.org/en/stable/references/api/tables_views.html#reserved-characters
+export function quoteFilterValue(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Rows strictly after the cursor in (column, id) order. NULLs are always sorted last.
+function keysetFilter(sort: SpeciesSort, cursor: SpeciesCursor): string {
+  const { column, ascending, nullable } = SORTS[sort];
+  const op = ascending ? "gt" : "lt";
+  if (column === "id") return `id.${op}.${cursor.id}`;
+  if (cursor.v === null) return `and(${column}.is.null,id.${op}.${cursor.id})`;
+
+  const value = quoteFilterValue(cursor.v);
+  const clauses = [`${column}.${op}.${value}`, `and(${column}.eq.${value},id.${op}.${cursor.id})`];
+  if (nullable) clauses.push(`${column}.is.null`);
+  return clauses.join(",");
+}
+
+// Ordering and keyset filter for a sort, applied identically to the table and search queries
+function pageOptions(sort: SpeciesSort, cursor: SpeciesCursor | null) {
+  const { column, ascending } = SORTS[sort];
+  return { column, ascending, filter: cursor ? keysetFilter(sort, cursor) : null };
+}
+
+function toPage<T extends SpeciesListItem>(rows: T[], sort: SpeciesSort, limit: number): SpeciesPage {
+  const { column } = SORTS[sort];
+  const species = rows.slice(0, limit);
+  const last = species[species.length - 1] as (T & Partial<SearchResult>) | undefined;
+  const nextCursor = rows.length > limit && last ? encodeCursor({ v: last[column] ?? null, id: last.id }) : null;
+  return { species, nextCursor };
+}
+
+/**
+ * Loads one page of species using keyset pagination. Used by both the /api/species route and the species page
+ * server component so the first page is rendered on the server and subsequent pages come from the API.
+ * Searches go through the `search_species` RPC (full-text + trigram, see setup.sql) and can be ordered by rank.
+ */
+export async function fetchSpeciesPage(
+  supabase: SupabaseClient<Database>,
+  query: SpeciesQuery,
+  cursor: SpeciesCursor | null,
+): Promise<{ data: SpeciesPage; error: null } | { data: null; error: string }> {
+  if (query.search) {
+    const { column, ascending, filter } = pageOptions(query.sort, cursor);
+
+    let request = supabase.rpc("search_species", { query: query.search });
+    if (query.kingdom) request = request.eq("kingdom", query.kingdom);
+    if (query.status) request = request.eq("iucn_status", query.status);
+    if (filter) request = request.or(filter);
+    request = request.order(column, { ascending, nullsFirst: false });
+    if (column !== "id") request = request.order("id", { ascending });
+
+    // Fetch one extra row to find out whether another page exists
+    const { data, error } = await request.limit(query.limit + 1);
+    if (error) {
+      return { data: null, error: error.message };
+    }
+    return { data: toPage(data, query.sort, query.limit), error: null };
+  }
+
+  // Without a search there is nothing to rank by
+  const sort = query.sort === "relevance" ? "id" : query.sort;
+  const { column, ascending, filter } = pageOptions(sort, cursor);
+
+  let request = supabase.from("species").select("*").is("deleted_at", null);
+  if (query.kingdom) request = request.eq("kingdom", query.kingdom);
+  if (query.status) request = request.eq("iucn_status", query.status);
+  if (filter) request = request.or(filter);
+  request = request.order(column, { ascending, nullsFirst: false });
+  if (column !== "id") request = request.order("id", { ascending });
+
+  const { data, error } = await request.limit(query.limit + 1);
+  if (error) {
+    return { data: null, error: error.message };
+  }
+  return { data: toPage(data, sort, query.limit), error: null };
+}
@@ -0,0 +1,97 @@
+import type { ChatMessage } from "@/lib/chat";
+import type { Database } from "@/lib/schema";
+import corpus from "@/lib/topic-corpus.json";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import type { ChatProvider } from "./chat-providers";
+import { createMockProvider } from "./chat-providers/mock";
+import { classifyConversation } from "./topic-classifier";
+
+// env.mjs reads the environment when it is first imported, which happens before the tests run
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = "http://localhost:54321";
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-key";
+});
+
+vi.mock("server-only", () => ({}));
+
+// Answers mentions_catalog_species with `named`, or with an error
+function catalogClient(named: boolean | Error) {
+  const rpc = vi.fn(() =>
+    Promise.resolve(named instanceof Error ? { data: null, error: named } : { data: named, error: null }),
+  );
+  return { supabase: { rpc } as unknown as SupabaseClient<Database>, rpc };
+}
+
+// A provider that replies with `answer`, or fails with it
+function scriptedProvider(answer: string | Error): ChatProvider {
+  return {
+    name: "scripted",
+    model: "scripted",
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async *streamChat() {
+      if (answer instanceof Error) throw answer;
+      yield { type: "text", text: answer };
+    },
+  };
+}
+
+function questions(...contents: string[]): ChatMessage[] {
+  return contents.map((content) => ({ role: "user", content }));
+}
+
+describe("classifyConversation", () => {
+  it.each(corpus.keyword)("accepts %j without looking up names", async (message) => {
+    const { supabase, rpc } = catalogClient(false);
+    expect(await classifyConversation(supabase, questions(message), null)).toBe(true);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it.each(corpus.lookup)("accepts %j when it names a catalog species", async (message) => {
+    const { supabase, rpc } = catalogClient(true);
+    expect(await classifyConversation(supabase, questions(message), null)).toBe(true);
+    expect(rpc).toHaveBeenCalledWith("mentions_catalog_species", { message });
+  });
+
+  it.each(corpus.lookup)("leaves %j to the model when no catalog species is named", async (message) => {
+    const { supabase } = catalogClient(false);
+    expect(await classifyConversation(supabase, questions(message), scriptedProvider("Yes"))).toBe(true);
+    expect(await classifyConversation(supabase, questions(message), scriptedProvider("no"))).toBe(false);
+  });
+
+  it.each(corpus.offTopic)("turns away %j when the model says no", async (message) => {
+    const { supabase } = catalogClient(false);
+    // The mock's reply is never "yes"
+    expect(await classifyConversation(supabase, questions(message), createMockProvider())).toBe(false);
+  });
+
+  it("only lets names in the latest question skip the model", async () => {
+    const { supabase, rpc } = catalogClient(false);
+    const provider = scriptedProvider("no");
+    const streamChat = vi.spyOn(provider, "streamChat");
+    const messages = questions("Tell me about tigers", "What's the weather tomorrow?");
+
+    expect(await classifyConversation(supabase, messages, provider)).toBe(false);
+    expect(rpc).toHaveBeenCalledWith("mentions_catalog_species", { message: "What's the weather tomorrow?" });
+    // Earlier questions are context for the model
+    expect(streamChat.mock.calls[0]?.[0].messages[0]?.content).toBe(
+      "Earlier: Tell me about tigers\nLatest: What's the weather tomorrow?",
+    );
+  });
+
+  it("asks the model when the catalog lookup fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { supabase } = catalogClient(new Error("connection refused"));
+    expect(
+      await classifyConversation(supabase, questions("Tell me about Panthera uncia"), scriptedProvider("yes")),
+    ).toBe(true);
+  });
+
+  it("fails closed when the model fails or there is none", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { supabase } = catalogClient(false);
+    const question = questions("Tell me about Panthera uncia");
+    expect(await classifyConversation(supabase, question, scriptedProvider(new Error("provider down")))).toBe(false);
+    expect(await classifyConversation(supabase, question, null)).toBe(false);
+  });
+});
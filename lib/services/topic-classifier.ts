@@ -0,0 +1,96 @@
+import "server-only";
+
+import type { ChatMessage } from "@/lib/chat";
+import type { Database } from "@/lib/schema";
+import { hasTopicKeyword } from "@/lib/topic";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { estimateUsage, type ChatProvider, type ChatProviderRequest, type ChatUsage } from "./chat-providers";
+
+// Follow-ups like "how fast is it?" are on topic when one of the user's recent questions was, which only the model can
+// judge: names in earlier turns don't vouch for the latest one. Only user turns count, so the bot's own replies (which
+// always mention species) can't carry an unrelated question through.
+const TOPIC_CONTEXT_TURNS = 3;
+// The model only needs the gist of a long message to classify it
+const MAX_CLASSIFIED_CHARS = 1000;
+
+const CLASSIFIER_PROMPT = `You decide whether messages sent to SpeciesBot, a chatbot about animals and other species, are on topic.
+On topic: anything about animals, plants, fungi or other organisms, including species named only by a common or scientific name, and follow-up questions about a species from earlier messages.
+Off topic: everything else.
+Reply with exactly one word: yes if the latest message is on topic, no if it isn't.`;
+
+interface ClassifyOptions {
+  // Aborting cancels the model check
+  signal?: AbortSignal;
+  // Told the tokens the model check used
+  onUsage?: (provider: ChatProvider, usage: ChatUsage) => void;
+}
+
+/**
+ * Asks the model for a yes/no verdict, reading only as much of the reply as it takes. Fails closed: a provider error
+ * means the question is turned away rather than answered by a provider that is failing anyway. Providers report usage
+ * at the end of a reply, which is cut short here, so the usage is usually estimated.
+ */
+async function askModel(
+  provider: ChatProvider,
+  turns: string[],
+  { signal, onUsage }: ClassifyOptions,
+): Promise<boolean> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+
+  const transcript = turns.map((turn, i) => `${i === turns.length - 1 ? "Latest" : "Earlier"}: ${turn}`).join("\n");
+  const request: ChatProviderRequest = {
+    system: CLASSIFIER_PROMPT,
+    messages: [{ role: "user", content: transcript }],
+    signal: controller.signal,
+  };
+  let answer = "";
+  let reported = false;
+  try {
+    for await (const event of provider.streamChat(request)) {
+      if (event.type === "usage") {
+        reported = true;
+        onUsage?.(provider, event.usage);
+      }
+      if (event.type !== "text") continue;
+      answer += event.text;
+      if (/[a-z]/i.test(answer)) break;
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) console.error("Topic classification failed:", err);
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    // Stop the rest of the reply
+    controller.abort();
+    if (!reported && answer) onUsage?.(provider, estimateUsage(request, answer));
+  }
+  return /^\W*yes/i.test(answer);
+}
+
+/**
+ * SpeciesBot's topic guard, shared by everything that answers chat messages. Cheapest checks first: names of
+ * organisms (lib/topic.ts) in the latest question, then names from our catalog in it, then the model, which also sees
+ * the earlier questions, when one is available.
+ */
+export async function classifyConversation(
+  supabase: SupabaseClient<Database>,
+  messages: ChatMessage[],
+  provider: ChatProvider | null,
+  options: ClassifyOptions = {},
+): Promise<boolean> {
+  const turns = messages
+    .filter((m) => m.role === "user")
+    .slice(-TOPIC_CONTEXT_TURNS)
+    .map((m) => m.content.slice(0, MAX_CLASSIFIED_CHARS));
+  const latest = turns[turns.length - 1];
+  if (!latest) return false;
+
+  if (hasTopicKeyword(latest)) return true;
+
+  const { data: named, error } = await supabase.rpc("mentions_catalog_species", { message: latest });
+  if (error) console.error("Could not look up catalog names:", error.message);
+  if (named) return true;
+
+  return !!provider && (await askModel(provider, turns, options));
+}
@@ -0,0 +1,22 @@
+// Export options shared by the /api/species/export route and the export menu on the species page.
+import { z } from "zod";
+import { speciesQuerySchema } from "./species-query";
+
+// "dwca" is a Darwin Core Archive: a zip with a tab-separated Taxon core, extensions and a meta.xml descriptor
+// https://dwc.tdwg.org/text/
+export const exportFormats = ["csv", "json", "dwca"] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  dwca: "Darwin Core Archive",
+};
+
+// Exports use the same filters and sort as the list, but always cover every matching species
+export const speciesExportQuerySchema = speciesQuerySchema
+  .omit({ cursor: true, limit: true })
+  .extend({ format: z.enum(exportFormats).default("csv") });
+
+export type SpeciesExportQuery = z.infer<typeof speciesExportQuerySchema>;
@@ -0,0 +1,71 @@
+import { iucnLabels, iucnStatusSchema } from "@/lib/conservation";
+import type { Database, Json } from "@/lib/schema";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type Snapshot = Record<string, Json | undefined>;
+
+// Species columns that can be edited, in display order; bookkeeping columns such as id and author are left out
+export const speciesFields = [
+  "scientific_name",
+  "common_name",
+  "kingdom",
+  "taxon_id",
+  "iucn_status",
+  "total_population",
+  "image",
+  "description",
+] as const;
+export type SpeciesField = (typeof speciesFields)[number];
+
+export const speciesFieldLabels: Record<SpeciesField, string> = {
+  scientific_name: "Scientific Name",
+  common_name: "Common Name",
+  kingdom: "Kingdom",
+  taxon_id: "Taxonomy",
+  iucn_status: "Conservation Status",
+  total_population: "Total Population",
+  image: "Image URL",
+  description: "Description",
+};
+
+// Suggested edits propose the lineage as names per rank (see Taxonomy in lib/taxonomy.ts) rather than a taxon id, so
+// the taxa are only created when the edit is accepted. Older proposals may still carry a taxon_id.
+export const proposalFields = speciesFields.flatMap((field) =>
+  field === "taxon_id" ? [field, "taxonomy" as const] : [field],
+);
+export type ProposalField = (typeof proposalFields)[number];
+
+export const proposalFieldLabels: Record<ProposalField, string> = { ...speciesFieldLabels, taxonomy: "Taxonomy" };
+
+export function asSnapshot(data: Json | null): Snapshot {
+  return typeof data === "object" && data !== null && !Array.isArray(data) ? data : {};
+}
+
+// Snapshots store taxon ids, so this looks up their names for display
+export async function fetchTaxonNames(supabase: SupabaseClient<Database>, snapshots: Snapshot[]) {
+  const taxonIds = new Set<number>();
+  for (const snapshot of snapshots) {
+    if (typeof snapshot.taxon_id === "number") taxonIds.add(snapshot.taxon_id);
+  }
+  if (taxonIds.size === 0) return new Map<number, string>();
+
+  const { data: taxa } = await supabase
+    .from("taxa")
+    .select("id, name, rank")
+    .in("id", [...taxonIds]);
+  return new Map((taxa ?? []).map((taxon) => [taxon.id, `${taxon.name} (${taxon.rank})`]));
+}
+
+export function formatSpeciesField(field: string, value: Json | undefined, taxonNames: Map<number, string>) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "taxon_id" && typeof value === "number") return taxonNames.get(value) ?? `Taxon #${value}`;
+  if (field === "taxonomy" && typeof value === "object" && !Array.isArray(value)) {
+    return Object.values(value).filter(Boolean).join(" › ") || "—";
+  }
+  if (field === "iucn_status") {
+    const status = iucnStatusSchema.safeParse(value);
+    if (status.success && status.data) return iucnLabels[status.data];
+  }
+  if (field === "total_population" && typeof value === "number") return value.toLocaleString();
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
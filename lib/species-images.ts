@@ -0,0 +1,69 @@
+// Species images live in the `species-images` Storage bucket as <user id>/<upload id>/{full,thumb}.webp, written by
+// the /api/species/images route. `species.image` stores the public URL of the full variant.
+export const SPECIES_IMAGES_BUCKET = "species-images";
+
+// Longest side of each stored variant, in pixels
+export const imageVariants = { full: 1600, thumb: 400 } as const;
+export type ImageVariant = keyof typeof imageVariants;
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Hosts we'll download images from when rehosting a linked image (the Wikipedia autofill links to Wikimedia)
+export const rehostableHosts = ["upload.wikimedia.org"];
+
+export interface UploadedImage {
+  image: string;
+  thumbnail: string;
+}
+
+export function isHostedImage(url: string | null | undefined): boolean {
+  return !!url && url.includes(`/storage/v1/object/public/${SPECIES_IMAGES_BUCKET}/`);
+}
+
+export function imageHost(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+export function isRehostable(url: string | null | undefined): boolean {
+  const host = url ? imageHost(url) : null;
+  return !!url && url.startsWith("https://") && !!host && rehostableHosts.includes(host);
+}
+
+/** The thumbnail variant of a species image; images that aren't in our bucket are returned as is. */
+export function speciesThumbnail(image: string): string {
+  return isHostedImage(image) ? image.replace(/\/full\.webp$/, "/thumb.webp") : image;
+}
+
+/** Sends a file, or the URL of an image to rehost, to the image route (from the browser) and returns the stored URLs. */
+export async function uploadSpeciesImage(source: File | string): Promise<UploadedImage> {
+  let res: Response;
+  if (typeof source === "string") {
+    res = await fetch("/api/species/images", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url: source }),
+    });
+  } else {
+    const body = new FormData();
+    body.append("file", source);
+    res = await fetch("/api/species/images", { method: "POST", body });
+  }
+
+  const json = (await res.json()) as UploadedImage | { error?: string };
+  if (!res.ok || !("image" in json)) {
+    throw new Error("error" in json && json.error ? json.error : "Upload failed.");
+  }
+  return json;
+}
+
+/** Removes an image from a species' gallery through the image route (from the browser), deleting its stored files. */
+export async function deleteSpeciesImage(id: number): Promise<{ error: { message: string } | null }> {
+  const res = await fetch(`/api/species/images?id=${id}`, { method: "DELETE" });
+  if (res.ok) return { error: null };
+  const json = (await res.json().catch(() => ({}))) as { error?: string };
+  return { error: { message: json.error ?? "Could not remove the image." } };
+}
@@ -0,0 +1,75 @@
+// Parsing for the bulk species import. Files are read in the browser and every row is turned into the input shape of
+// `speciesSchema`, so imported rows are validated exactly like species added through the dialog.
+import { csvParse } from "d3";
+import { lineageRanks } from "./taxonomy";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportFormat = "csv" | "json";
+
+export function importFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "json" ? extension : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Blank cells mean "no value"; anything else is passed through for the schema to reject if it's the wrong type
+function optionalText(value: unknown) {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" && value.trim() === "") return null;
+  return value;
+}
+
+function optionalNumber(value: unknown) {
+  const text = optionalText(value);
+  if (typeof text !== "string") return text;
+  const number = Number(text.replace(/[,_\s]/g, ""));
+  return Number.isNaN(number) ? text : number;
+}
+
+/**
+ * Maps one imported record to the input of `speciesSchema`. Taxonomy can be given either as flat columns
+ * (`phylum`, `class`, ...) as in a CSV file, or as a nested `taxonomy` object as in a JSON export.
+ */
+export function toSpeciesInput(record: Record<string, unknown>) {
+  const nested = isRecord(record.taxonomy) ? record.taxonomy : {};
+  const status = optionalText(record.iucn_status);
+
+  return {
+    scientific_name: record.scientific_name ?? "",
+    common_name: optionalText(record.common_name),
+    kingdom: typeof record.kingdom === "string" ? record.kingdom.trim() : record.kingdom,
+    iucn_status: typeof status === "string" ? status.trim().toUpperCase() : status,
+    total_population: optionalNumber(record.total_population),
+    image: optionalText(record.image),
+    description: optionalText(record.description),
+    taxonomy: Object.fromEntries(lineageRanks.map((rank) => [rank, optionalText(nested[rank] ?? record[rank])])),
+  };
+}
+
+/** Reads the records of an import file. Throws with a user-facing message if the file can't be read. */
+export function parseImportFile(text: string, format: ImportFormat): Record<string, unknown>[] {
+  let records: unknown[];
+
+  if (format === "csv") {
+    records = csvParse(text.trim());
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+    if (!Array.isArray(parsed)) throw new Error("The JSON file must contain an array of species.");
+    records = parsed;
+  }
+
+  if (records.length === 0) throw new Error("The file doesn't contain any species.");
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} species at a time (the file has ${records.length}).`);
+  }
+  return records.map((record) => (isRecord(record) ? record : {}));
+}
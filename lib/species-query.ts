@@ -0,0 +1,57 @@
+// Query parameters for the species listing, shared by the /api/species route, the species page server loader and the
+// client-side infinite scroll. Keep this file free of server-only imports so it can be used in client components.
+import { z } from "zod";
+import { iucnCategories } from "./conservation";
+import type { Database } from "./schema";
+
+export const kingdoms = [
+  "Animalia",
+  "Plantae",
+  "Fungi",
+  "Protista",
+  "Archaea",
+  "Bacteria",
+] as const satisfies readonly Database["public"]["Enums"]["kingdom"][];
+
+// "id" lists newest species first, "name" is alphabetical by scientific name, "population" is largest first.
+// "relevance" orders by search rank and only applies when `search` is set (it falls back to "id" otherwise).
+export const speciesSorts = ["relevance", "id", "name", "population"] as const;
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export const speciesQuerySchema = z.object({
+  sort: z.enum(speciesSorts).default("id"),
+  kingdom: z.enum(kingdoms).optional(),
+  // IUCN Red List category
+  status: z.enum(iucnCategories).optional(),
+  search: z
+    .string()
+    .max(200)
+    .optional()
+    .transform((val) => (!val || val.trim() === "" ? undefined : val.trim())),
+  // Opaque keyset cursor returned as `nextCursor` by the previous page
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+export type SpeciesQuery = z.infer<typeof speciesQuerySchema>;
+export type SpeciesSort = SpeciesQuery["sort"];
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+// Search results also carry a description excerpt with the matched words wrapped in [[ and ]]
+export type SpeciesListItem = Species & { headline?: string | null };
+
+export interface SpeciesPage {
+  species: SpeciesListItem[];
+  nextCursor: string | null;
+}
+
+export function speciesQueryToSearchParams(query: Partial<SpeciesQuery>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  return params;
+}
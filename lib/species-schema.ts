@@ -0,0 +1,41 @@
+// Validation for a new species, shared by the add species dialog and the bulk import page.
+import { z } from "zod";
+import { iucnStatusSchema } from "./conservation";
+import { normalizeScientificName } from "./scientific-name";
+import { kingdoms } from "./species-query";
+import { taxonomySchema } from "./taxonomy";
+
+export const kingdomSchema = z.enum(kingdoms);
+
+export const speciesSchema = z.object({
+  scientific_name: z.string().trim().min(1).transform(normalizeScientificName),
+  common_name: z
+    .string()
+    .nullable()
+    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
+  kingdom: kingdomSchema,
+  iucn_status: iucnStatusSchema,
+  total_population: z.number().int().positive().min(1).nullable(),
+  image: z
+    .string()
+    .url()
+    .nullable()
+    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
+  description: z
+    .string()
+    .nullable()
+    .transform((val) => (!val || val.trim() === "" ? null : val.trim())),
+  taxonomy: taxonomySchema,
+});
+
+export type SpeciesFormData = z.infer<typeof speciesSchema>;
+
+// A new species drafted by the chatbot, which the user reviews and completes in the add species dialog before it is
+// saved. Only the name and kingdom are required, and the image is left for the user to choose.
+export const speciesDraftSchema = speciesSchema
+  .omit({ image: true, taxonomy: true })
+  .partial()
+  .required({ scientific_name: true, kingdom: true })
+  .extend({ taxonomy: taxonomySchema.partial().optional() });
+
+export type SpeciesDraft = z.infer<typeof speciesDraftSchema>;
@@ -0,0 +1,27 @@
+// Shareable URLs for species detail pages: /species/<id>-<slug>, e.g. /species/12-panthera-leo.
+// The id is what identifies the species; the slug only makes links readable and is corrected by the page.
+import type { Database } from "./schema";
+
+type Species = Database["public"]["Tables"]["species"]["Row"];
+
+export function speciesSlug(scientificName: string): string {
+  return scientificName
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function speciesPath(species: Pick<Species, "id" | "scientific_name">): string {
+  const slug = speciesSlug(species.scientific_name);
+  return `/species/${species.id}${slug ? `-${slug}` : ""}`;
+}
+
+/** Reads the species id from a `[id]` route segment such as "12-panthera-leo" or "12". */
+export function parseSpeciesParam(param: string): number | null {
+  const match = /^(\d+)(?:-|$)/.exec(param);
+  if (!match?.[1]) return null;
+  const id = Number(match[1]);
+  return Number.isSafeInteger(id) ? id : null;
+}
@@ -0,0 +1,71 @@
+// Taxonomy helpers shared by the species dialogs and the taxonomy tree page.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { Database } from "./schema";
+
+type Taxon = Database["public"]["Tables"]["taxa"]["Row"];
+type Kingdom = Database["public"]["Enums"]["kingdom"];
+export type TaxonRank = Database["public"]["Enums"]["taxon_rank"];
+
+// Ranks below kingdom that users fill in by hand (kingdom comes from the species' own `kingdom` field)
+export const lineageRanks = ["phylum", "class", "order", "family", "genus"] as const satisfies readonly TaxonRank[];
+export type LineageRank = (typeof lineageRanks)[number];
+
+export const rankLabels: Record<TaxonRank, string> = {
+  kingdom: "Kingdom",
+  phylum: "Phylum",
+  class: "Class",
+  order: "Order",
+  family: "Family",
+  genus: "Genus",
+};
+
+const taxonName = z
+  .string()
+  .max(100)
+  .nullable()
+  .transform((val) => (!val || val.trim() === "" ? null : val.trim()));
+
+export const taxonomySchema = z.object({
+  phylum: taxonName,
+  class: taxonName,
+  order: taxonName,
+  family: taxonName,
+  genus: taxonName,
+});
+
+export type Taxonomy = z.infer<typeof taxonomySchema>;
+
+export const emptyTaxonomy: Taxonomy = { phylum: null, class: null, order: null, family: null, genus: null };
+
+/** Turns the rows returned by the `taxon_lineage` RPC into one name per rank. */
+export function lineageToTaxonomy(lineage: Pick<Taxon, "name" | "rank">[]): Taxonomy {
+  const taxonomy = { ...emptyTaxonomy };
+  for (const taxon of lineage) {
+    if (taxon.rank !== "kingdom") taxonomy[taxon.rank] = taxon.name;
+  }
+  return taxonomy;
+}
+
+/** Loads the lineage of a species' taxon; species without a taxon get an empty taxonomy. */
+export async function fetchTaxonomy(supabase: SupabaseClient<Database>, taxonId: number | null) {
+  if (taxonId === null) return { data: emptyTaxonomy, error: null };
+  const { data, error } = await supabase.rpc("taxon_lineage", { taxon: taxonId });
+  if (error) return { data: null, error };
+  return { data: lineageToTaxonomy(data), error: null };
+}
+
+/**
+ * Finds or creates the taxa for a lineage and returns the id of the lowest one, to be stored as `species.taxon_id`.
+ * When no rank below kingdom is filled in, the species is attached to its kingdom.
+ */
+export async function saveTaxonomy(supabase: SupabaseClient<Database>, kingdom: Kingdom, taxonomy: Taxonomy) {
+  return supabase.rpc("ensure_taxon_lineage", {
+    kingdom_name: kingdom,
+    phylum_name: taxonomy.phylum,
+    class_name: taxonomy.class,
+    order_name: taxonomy.order,
+    family_name: taxonomy.family,
+    genus_name: taxonomy.genus,
+  });
+}
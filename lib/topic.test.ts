@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { hasTopicKeyword } from "./topic";
+import corpus from "./topic-corpus.json";
+
+describe("hasTopicKeyword", () => {
+  it.each(corpus.keyword)("accepts %j", (message) => {
+    expect(hasTopicKeyword(message)).toBe(true);
+  });
+
+  it.each(corpus.offTopic)("rejects %j", (message) => {
+    expect(hasTopicKeyword(message)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// Keyword side of SpeciesBot's topic guard: names of organisms, which on their own make a message about species.
+// Subject words such as "population", "range" or "family" are left to the LLM check, since they are just as common
+// in questions about countries or code. Names from our catalog and the LLM check cover the rest; see
+// lib/services/topic-classifier.ts.
+
+// Kinds of organisms
+const GROUP_WORDS = (
+  "species animal wildlife fauna flora organism creature mammal bird reptile amphibian fish insect arachnid " +
+  "invertebrate vertebrate marsupial primate rodent carnivore herbivore omnivore fungus fungi"
+).split(" ");
+
+// Common names of familiar animals and plants, which people ask about without saying "animal"
+const ORGANISM_WORDS = (
+  "aardvark albatross alligator alpaca anaconda ant anteater antelope ape armadillo baboon badger bat bear " +
+  "beaver bee beetle bison boar bobcat buffalo butterfly camel capybara caribou cat caterpillar chameleon " +
+  "cheetah chicken chimpanzee chinchilla cobra cockroach condor coral cougar cow coyote crab crane " +
+  "crocodile crow cuckoo deer dingo dog dolphin donkey dove dragonfly duck eagle eel elephant elk emu " +
+  "falcon ferret finch firefly flamingo fox frog gazelle gecko gibbon giraffe gnu goat goose gorilla " +
+  "grasshopper hamster hare hawk hedgehog heron hippo hippopotamus hornet horse hummingbird hyena ibis " +
+  "iguana impala jackal jaguar jellyfish kangaroo kingfisher kiwi koala komodo krill ladybug lemur leopard " +
+  "lion lizard llama lobster lynx macaw magpie manatee mantis meerkat mink mole mongoose monkey moose " +
+  "mosquito moth mouse mule narwhal newt ocelot octopus okapi opossum orangutan orca ostrich otter owl ox " +
+  "oyster panda panther parrot peacock pelican penguin pheasant pig pigeon platypus porcupine porpoise " +
+  "puffin puma quail rabbit raccoon rat rattlesnake raven reindeer rhino rhinoceros salamander salmon " +
+  "scorpion seahorse seal shark sheep shrimp skunk sloth slug snail snake sparrow spider squid squirrel " +
+  "starfish stingray stork swan tapir tarantula termite tiger toad tortoise toucan trout tuna turtle " +
+  "vulture walrus warthog wasp weasel whale wildebeest wolf wolverine wombat woodpecker worm yak zebra " +
+  "bamboo baobab cactus fern lichen mushroom moss oak orchid redwood sequoia"
+).split(" ");
+
+const VOCABULARY = new Set([...GROUP_WORDS, ...ORGANISM_WORDS]);
+
+// Irregular plurals that simple suffix stripping gets wrong
+const IRREGULAR_PLURALS: Record<string, string> = {
+  mice: "mouse",
+  geese: "goose",
+  oxen: "ox",
+  wolves: "wolf",
+  cacti: "cactus",
+  octopi: "octopus",
+  species: "species",
+};
+
+// Candidate singular forms of a word ("butterflies" → "butterfly", "foxes" → "fox", "lions" → "lion")
+function singulars(word: string): string[] {
+  const irregular = IRREGULAR_PLURALS[word];
+  if (irregular) return [irregular];
+  const forms = [word];
+  if (word.endsWith("ies")) forms.push(`${word.slice(0, -3)}y`);
+  if (/(s|x|z|ch|sh|o)es$/.test(word)) forms.push(word.slice(0, -2));
+  if (word.endsWith("s")) forms.push(word.slice(0, -1));
+  return forms;
+}
+
+function isVocabulary(word: string): boolean {
+  return singulars(word.toLowerCase()).some((form) => VOCABULARY.has(form));
+}
+
+function isCapitalized(word: string): boolean {
+  return /^[A-Z]/.test(word);
+}
+
+/**
+ * Whether the text names an organism. A capitalized name followed by another capitalized word that isn't one is taken
+ * as part of a proper name, so "Tiger Woods" or "Jaguar Land Rover" don't count, while "Bengal Tiger" does.
+ */
+export function hasTopicKeyword(text: string): boolean {
+  const words = text.match(/[A-Za-z]+/g) ?? [];
+  return words.some((word, i) => {
+    if (!isVocabulary(word)) return false;
+    const next = words[i + 1];
+    return !(next && isCapitalized(word) && isCapitalized(next) && !isVocabulary(next));
+  });
+}
@@ -0,0 +1,191 @@
+// Reads taxonomy data from Wikidata for the add species autofill.
+// Property reference: P225 taxon name, P171 parent taxon, P105 taxon rank, P141 IUCN conservation status.
+// https://www.wikidata.org/wiki/Wikidata:WikiProject_Taxonomy
+import type { IucnCategory } from "./conservation";
+import type { Database } from "./schema";
+import { emptyTaxonomy, type LineageRank, type Taxonomy } from "./taxonomy";
+
+type Kingdom = Database["public"]["Enums"]["kingdom"];
+
+interface WikidataSnak {
+  datavalue?: { value?: string | { id?: string } };
+}
+
+interface WikidataClaim {
+  mainsnak?: WikidataSnak;
+  rank?: "preferred" | "normal" | "deprecated";
+}
+
+interface WikidataEntity {
+  claims?: Record<string, WikidataClaim[] | undefined>;
+  labels?: Record<string, { value?: string }>;
+}
+
+interface WikidataEntitiesResponse {
+  entities?: Record<string, WikidataEntity>;
+}
+
+// Rows of a SPARQL SELECT in the JSON results format; unbound variables are left out
+interface SparqlResponse {
+  results?: { bindings?: Record<string, { value?: string } | undefined>[] };
+}
+
+// An ancestor of the taxon being looked up, as returned by the lineage query
+interface Ancestor {
+  parentId?: string;
+  name?: string;
+  rankId?: string;
+}
+
+// Items used as values of P105 (taxon rank). Plant "divisions" are treated as phyla.
+const RANK_ITEMS: Record<string, LineageRank | "kingdom"> = {
+  Q36732: "kingdom",
+  Q38348: "phylum",
+  Q334460: "phylum",
+  Q37517: "class",
+  Q36602: "order",
+  Q35409: "family",
+  Q34740: "genus",
+};
+
+// Items used as values of P141 (IUCN conservation status)
+const IUCN_ITEMS: Record<string, IucnCategory> = {
+  Q211005: "LC",
+  Q719675: "NT",
+  Q278113: "VU",
+  Q11394: "EN",
+  Q219127: "CR",
+  Q239509: "EW",
+  Q237350: "EX",
+  Q3245245: "DD",
+};
+
+// Wikidata taxon names that correspond to our kingdom enum. Protists are split across several kingdoms there.
+const KINGDOM_NAMES: Record<string, Kingdom> = {
+  Animalia: "Animalia",
+  Plantae: "Plantae",
+  Fungi: "Fungi",
+  Protista: "Protista",
+  Protozoa: "Protista",
+  Chromista: "Protista",
+  Archaea: "Archaea",
+  Bacteria: "Bacteria",
+};
+
+// The parent chain passes through many unranked clades (e.g. Amniota), so allow plenty of hops before giving up
+const MAX_PARENT_HOPS = 60;
+
+const ENTITY_URI_PREFIX = "http://www.wikidata.org/entity/";
+
+export interface WikidataTaxonomy {
+  scientificName: string | null;
+  kingdom: Kingdom | null;
+  taxonomy: Taxonomy;
+  iucnStatus: IucnCategory | null;
+}
+
+export async function fetchWikidataEntity(id: string): Promise<WikidataEntity | null> {
+  const res = await fetch(
+    `https://www.wikidata.org/w/api.php?action=wbgetentities&ids=${encodeURIComponent(
+      id,
+    )}&props=claims|labels&languages=en&format=json&origin=*`,
+  );
+  if (!res.ok) return null;
+  const data = (await res.json()) as WikidataEntitiesResponse;
+  return data.entities?.[id] ?? null;
+}
+
+/**
+ * The item and all its ancestors, keyed by id, with their parent taxon (P171), name (P225) and rank (P105), fetched in
+ * one query rather than one request per parent. Truthy (wdt:) statements leave out deprecated ones and prefer
+ * preferred ones, like bestClaim. Returns null if the query fails.
+ */
+async function fetchAncestors(id: string): Promise<Map<string, Ancestor> | null> {
+  // The id goes into the query text
+  if (!/^Q\d+$/.test(id)) return null;
+  const query = `SELECT ?taxon ?parent ?name ?rank WHERE {
+    wd:${id} wdt:P171* ?taxon .
+    OPTIONAL { ?taxon wdt:P171 ?parent }
+    OPTIONAL { ?taxon wdt:P225 ?name }
+    OPTIONAL { ?taxon wdt:P105 ?rank }
+  }`;
+  const res = await fetch(`https://query.wikidata.org/sparql?query=${encodeURIComponent(query)}&format=json`, {
+    headers: { Accept: "application/sparql-results+json" },
+  });
+  if (!res.ok) return null;
+  const data = (await res.json()) as SparqlResponse;
+
+  const itemId = (uri?: string) =>
+    uri?.startsWith(ENTITY_URI_PREFIX) ? uri.slice(ENTITY_URI_PREFIX.length) : undefined;
+  const ancestors = new Map<string, Ancestor>();
+  // Taxa with several parents, names or ranks come back once per combination; keep the first of each
+  for (const row of data.results?.bindings ?? []) {
+    const taxonId = itemId(row.taxon?.value);
+    if (!taxonId) continue;
+    const ancestor = ancestors.get(taxonId) ?? {};
+    ancestor.parentId ??= itemId(row.parent?.value);
+    ancestor.name ??= row.name?.value?.trim();
+    ancestor.rankId ??= itemId(row.rank?.value);
+    ancestors.set(taxonId, ancestor);
+  }
+  return ancestors;
+}
+
+// Preferred statements win over normal ones; deprecated statements are ignored
+function bestClaim(entity: WikidataEntity, property: string): WikidataClaim | undefined {
+  const claims = (entity.claims?.[property] ?? []).filter((c) => c.rank !== "deprecated");
+  return claims.find((c) => c.rank === "preferred") ?? claims[0];
+}
+
+function stringClaim(entity: WikidataEntity, property: string): string | null {
+  const value = bestClaim(entity, property)?.mainsnak?.datavalue?.value;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function itemClaim(entity: WikidataEntity, property: string): string | null {
+  const value = bestClaim(entity, property)?.mainsnak?.datavalue?.value;
+  return typeof value === "object" && value.id ? value.id : null;
+}
+
+/**
+ * Walks the parent taxon chain (P171) of a Wikidata item up to its kingdom, collecting the name (P225) of every
+ * ancestor whose rank (P105) we store. Returns null if the item itself can't be loaded; if its ancestors can't be,
+ * the taxonomy is left empty.
+ */
+export async function fetchWikidataTaxonomy(id: string): Promise<WikidataTaxonomy | null> {
+  const [entity, ancestors] = await Promise.all([fetchWikidataEntity(id), fetchAncestors(id).catch(() => null)]);
+  if (!entity) return null;
+
+  const labelEn = entity.labels?.en?.value;
+  const result: WikidataTaxonomy = {
+    scientificName: stringClaim(entity, "P225") ?? (labelEn && /[A-Z][a-z]+ [a-z]+/.test(labelEn) ? labelEn : null),
+    kingdom: null,
+    taxonomy: { ...emptyTaxonomy },
+    iucnStatus: IUCN_ITEMS[itemClaim(entity, "P141") ?? ""] ?? null,
+  };
+
+  const visited = new Set<string>([id]);
+  let parentId = itemClaim(entity, "P171");
+
+  for (let hops = 0; parentId && !visited.has(parentId) && hops < MAX_PARENT_HOPS; hops++) {
+    visited.add(parentId);
+    const parent = ancestors?.get(parentId);
+    if (!parent) break;
+
+    const { name } = parent;
+    const rank = RANK_ITEMS[parent.rankId ?? ""];
+
+    // Bacteria and Archaea are ranked as domains, so match kingdoms by name rather than by rank
+    if (name && KINGDOM_NAMES[name]) {
+      result.kingdom = KINGDOM_NAMES[name] ?? null;
+      break;
+    }
+    if (name && rank && rank !== "kingdom" && !result.taxonomy[rank]) {
+      result.taxonomy[rank] = name;
+    }
+
+    parentId = parent.parentId ?? null;
+  }
+
+  return result;
+}
@@ -0,0 +1,87 @@
+// Reads attribution and license metadata for images hosted on upload.wikimedia.org, so images pulled in through
+// the Wikipedia autofill are credited. https://www.mediawiki.org/wiki/Extension:CommonsMetadata
+interface ExtMetadataValue {
+  value?: string;
+}
+
+interface ImageInfoResponse {
+  query?: {
+    pages?: Record<
+      string,
+      {
+        imageinfo?: {
+          descriptionurl?: string;
+          extmetadata?: Record<string, ExtMetadataValue | undefined>;
+        }[];
+      }
+    >;
+  };
+}
+
+export interface ImageCredit {
+  caption: string | null;
+  author: string | null;
+  license: string | null;
+  license_url: string | null;
+  source_url: string | null;
+}
+
+// upload.wikimedia.org/wikipedia/<project>/[thumb/]<x>/<xy>/<File_name.jpg>[/<size>px-File_name.jpg]
+const UPLOAD_PATH = /^\/wikipedia\/(commons|en)\/(?:thumb\/)?[0-9a-f]\/[0-9a-f]{2}\/([^/]+)/;
+
+const API_HOSTS = {
+  commons: "commons.wikimedia.org",
+  en: "en.wikipedia.org",
+};
+
+// Artist and description fields are HTML fragments; keep only their text
+function plainText(html: string | undefined): string | null {
+  if (!html) return null;
+  const text = html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || null;
+}
+
+/** Returns the credit for a Wikimedia-hosted image, or null if the URL isn't one or the lookup fails. */
+export async function fetchWikimediaImageCredit(imageUrl: string): Promise<ImageCredit | null> {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    return null;
+  }
+  if (url.hostname !== "upload.wikimedia.org") return null;
+
+  const match = UPLOAD_PATH.exec(url.pathname);
+  const project = match?.[1] as keyof typeof API_HOSTS | undefined;
+  const fileName = match?.[2];
+  if (!project || !fileName) return null;
+
+  const res = await fetch(
+    `https://${API_HOSTS[project]}/w/api.php?action=query&titles=${encodeURIComponent(
+      `File:${decodeURIComponent(fileName)}`,
+    )}&prop=imageinfo&iiprop=extmetadata|url&format=json&origin=*`,
+  );
+  if (!res.ok) return null;
+
+  const data = (await res.json()) as ImageInfoResponse;
+  const info = Object.values(data.query?.pages ?? {})[0]?.imageinfo?.[0];
+  if (!info) return null;
+  const meta = info.extmetadata ?? {};
+
+  return {
+    caption: plainText(meta.ImageDescription?.value)?.slice(0, 500) ?? null,
+    author: plainText(meta.Artist?.value) ?? plainText(meta.Credit?.value),
+    license: plainText(meta.LicenseShortName?.value),
+    license_url: meta.LicenseUrl?.value ?? null,
+    source_url: info.descriptionurl ?? null,
+  };
+}
@@ -57,25 +57,1102 @@ alter table species
 create policy "Species are viewable by everyone." on species
   for select using (true);
 
-create policy "Users can insert their own species." on species
-  for insert with check (auth.uid() = author);
-
-create policy "Users can update their created species." on species
-  for update using (auth.uid() = author);
-
-create policy "Users can delete their created species." on species
-  for delete using (auth.uid() = author);
-
--- Prevent the author field of a created species from being changed
+-- Prevent the author field of a created species from being changed, except by admins reassigning it
 create function public.species_columns_updateable()
 returns trigger as $$
 begin
-  if new.author <> old.author then
+  if new.author <> old.author and not public.has_role('admin') then
     raise exception 'changing species author is not allowed';
   end if;
   return new;
 end;
-$$ language plpgsql security definer;
+$$ language plpgsql security definer set search_path = public;
 create trigger columns_updateable
   before update on public.species
   for each row execute procedure public.species_columns_updateable();
+
+-- Full-text and fuzzy (trigram) search over species names and descriptions.
+-- https://www.postgresql.org/docs/current/textsearch-controls.html
+-- https://www.postgresql.org/docs/current/pgtrgm.html
+create extension if not exists pg_trgm with schema extensions;
+
+-- Names carry more weight than the description when ranking results
+create function public.species_search_document(scientific_name text, common_name text, description text)
+returns tsvector as $$
+  select setweight(to_tsvector('english', scientific_name || ' ' || coalesce(common_name, '')), 'A') ||
+         setweight(to_tsvector('english', coalesce(description, '')), 'B');
+$$ language sql immutable;
+
+create index species_search_document_idx on species
+  using gin (public.species_search_document(scientific_name, common_name, description));
+create index species_scientific_name_trgm_idx on species using gin (scientific_name extensions.gin_trgm_ops);
+create index species_common_name_trgm_idx on species using gin (common_name extensions.gin_trgm_ops);
+
+-- Taxonomic hierarchy: each taxon points at its parent, from kingdom down to genus.
+-- Species link to the lowest known taxon in their lineage; `species.kingdom` stays as the denormalized top level.
+create type taxon_rank as enum ('kingdom', 'phylum', 'class', 'order', 'family', 'genus');
+
+create table taxa (
+  id int generated by default as identity primary key,
+  name text not null,
+  rank taxon_rank not null,
+  parent_id int references taxa,
+  -- The same name can belong to unrelated taxa, e.g. a genus name used once among animals and once among
+  -- plants, so names are only unique among siblings. Kingdoms have no parent, so nulls count as equal.
+  unique nulls not distinct (rank, name, parent_id)
+);
+create index taxa_parent_id_idx on taxa (parent_id);
+
+alter table taxa
+  enable row level security;
+
+create policy "Taxa are viewable by everyone." on taxa
+  for select using (true);
+
+-- Every kingdom in the enum is a root of the tree
+insert into taxa (name, rank)
+select unnest(enum_range(null::kingdom))::text, 'kingdom';
+
+alter table species
+  add column taxon_id int references taxa;
+create index species_taxon_id_idx on species (taxon_id);
+
+-- Finds or creates each taxon in the lineage below the given kingdom and returns the id of the lowest one. A taxon
+-- is only reused under the same parent, so a lineage can't be grafted onto a namesake in another branch. Blank
+-- ranks are skipped, so a genus can hang directly off a family when the order is unknown.
+-- Runs as security definer because taxa have no insert policy: users can only extend the tree through this function.
+create function public.ensure_taxon_lineage(
+  kingdom_name kingdom,
+  phylum_name text default null,
+  class_name text default null,
+  order_name text default null,
+  family_name text default null,
+  genus_name text default null
+)
+returns int as $$
+declare
+  parent int;
+  match_id int;
+  step record;
+begin
+  if auth.uid() is null then
+    raise exception 'must be signed in to add taxa';
+  end if;
+
+  select id from taxa where rank = 'kingdom' and name = kingdom_name::text into parent;
+
+  for step in
+    select * from (values
+      ('phylum'::taxon_rank, nullif(trim(phylum_name), ''), 1),
+      ('class'::taxon_rank, nullif(trim(class_name), ''), 2),
+      ('order'::taxon_rank, nullif(trim(order_name), ''), 3),
+      ('family'::taxon_rank, nullif(trim(family_name), ''), 4),
+      ('genus'::taxon_rank, nullif(trim(genus_name), ''), 5)
+    ) as ranks(rank, name, depth)
+    where ranks.name is not null
+    order by depth
+  loop
+    select id from taxa
+    where taxa.rank = step.rank and lower(taxa.name) = lower(step.name) and taxa.parent_id is not distinct from parent
+    into match_id;
+    if match_id is null then
+      insert into taxa (name, rank, parent_id) values (step.name, step.rank, parent) returning id into match_id;
+    end if;
+    parent := match_id;
+  end loop;
+
+  return parent;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- The chain of taxa from the given taxon up to its kingdom, lowest rank first
+create function public.taxon_lineage(taxon int)
+returns setof taxa as $$
+  with recursive lineage as (
+    select * from taxa where id = taxon
+    union all
+    select t.* from taxa t join lineage l on t.id = l.parent_id
+  )
+  select * from lineage;
+$$ language sql stable;
+
+-- Conservation status: the current IUCN Red List category on each species plus a dated history of assessments.
+-- https://www.iucnredlist.org/about/faqs
+create type iucn_category as enum ('LC', 'NT', 'VU', 'EN', 'CR', 'EW', 'EX', 'DD');
+
+alter table species
+  add column iucn_status iucn_category;
+create index species_iucn_status_idx on species (iucn_status);
+
+create table species_assessments (
+  id int generated by default as identity primary key,
+  species_id int not null references species on delete cascade,
+  assessed_on date not null default current_date,
+  iucn_status iucn_category,
+  population int,
+  author uuid not null references profiles,
+  created_at timestamptz not null default now()
+);
+create index species_assessments_species_id_idx on species_assessments (species_id, assessed_on);
+
+alter table species_assessments
+  enable row level security;
+
+create policy "Assessments are viewable by everyone." on species_assessments
+  for select using (true);
+
+-- Record an assessment whenever a species is created with, or changes, its status or population
+create function public.record_species_assessment()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' and new.iucn_status is null and new.total_population is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+    and new.iucn_status is not distinct from old.iucn_status
+    and new.total_population is not distinct from old.total_population then
+    return new;
+  end if;
+  insert into public.species_assessments (species_id, iucn_status, population, author)
+  values (new.id, new.iucn_status, new.total_population, coalesce(auth.uid(), new.author));
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger on_species_assessment_changed
+  after insert or update on public.species
+  for each row execute procedure public.record_species_assessment();
+
+-- Bulk import: insert a batch of validated species for the signed in user in one transaction.
+-- Rows use the same shape as the add species form, with the lineage in a nested "taxonomy" object.
+-- Runs as the caller so the species insert policy still applies; any failing row rolls back the whole batch.
+create function public.import_species(rows jsonb)
+returns setof species as $$
+declare
+  item jsonb;
+  inserted species;
+begin
+  if auth.uid() is null then
+    raise exception 'must be signed in to import species';
+  end if;
+  if jsonb_typeof(rows) <> 'array' then
+    raise exception 'rows must be a json array';
+  end if;
+
+  for item in select value from jsonb_array_elements(rows)
+  loop
+    insert into species (
+      scientific_name, common_name, kingdom, iucn_status, total_population, image, description, taxon_id, author
+    )
+    values (
+      item->>'scientific_name',
+      item->>'common_name',
+      (item->>'kingdom')::kingdom,
+      (item->>'iucn_status')::iucn_category,
+      (item->>'total_population')::int,
+      item->>'image',
+      item->>'description',
+      public.ensure_taxon_lineage(
+        (item->>'kingdom')::kingdom,
+        item->'taxonomy'->>'phylum',
+        item->'taxonomy'->>'class',
+        item->'taxonomy'->>'order',
+        item->'taxonomy'->>'family',
+        item->'taxonomy'->>'genus'
+      ),
+      auth.uid()
+    )
+    returning * into inserted;
+    return next inserted;
+  end loop;
+end;
+$$ language plpgsql;
+
+-- Change history for species. Every insert, update and delete stores the row before and after the change, so the
+-- history survives the species being deleted (species_id deliberately has no foreign key).
+create table species_revisions (
+  id int generated by default as identity primary key,
+  species_id int not null,
+  operation text not null check (operation in ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[] not null default '{}',
+  changed_by uuid references profiles on delete set null,
+  changed_at timestamptz not null default now(),
+  -- Set when the change was made by revert_species
+  reverted_from int references species_revisions on delete set null
+);
+create index species_revisions_species_id_idx on species_revisions (species_id, changed_at desc);
+
+alter table species_revisions
+  enable row level security;
+
+create policy "Species revisions are viewable by everyone." on species_revisions
+  for select using (true);
+
+create function public.record_species_revision()
+returns trigger as $$
+declare
+  old_data jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_data jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  changed text[];
+begin
+  select coalesce(array_agg(key order by key), '{}') into changed
+  from jsonb_object_keys(coalesce(new_data, old_data)) as key
+  where old_data -> key is distinct from new_data -> key;
+
+  -- Updates that don't change anything are not worth a revision
+  if tg_op = 'UPDATE' and cardinality(changed) = 0 then
+    return new;
+  end if;
+
+  insert into public.species_revisions (species_id, operation, old_data, new_data, changed_fields, changed_by, reverted_from)
+  values (
+    (coalesce(new_data, old_data)->>'id')::int,
+    tg_op,
+    old_data,
+    new_data,
+    changed,
+    auth.uid(),
+    nullif(current_setting('app.reverted_from', true), '')::int
+  );
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger on_species_changed
+  after insert or update or delete on public.species
+  for each row execute procedure public.record_species_revision();
+
+-- Restores a species to its state right after the given revision. Runs as the caller, so only its author or a
+-- moderator can revert it (the species update policy applies), and the revert is itself recorded as a new revision.
+create function public.revert_species(revision int)
+returns void as $$
+declare
+  target public.species_revisions;
+begin
+  select * from public.species_revisions where id = revision into target;
+  -- Revisions moved over by merge_species hold the duplicate's data, so they can't be restored onto the kept species
+  if target.id is null or target.new_data is null or (target.new_data->>'id')::int <> target.species_id then
+    raise exception 'revision % cannot be restored', revision;
+  end if;
+
+  perform set_config('app.reverted_from', revision::text, true);
+
+  update public.species s
+  set (scientific_name, common_name, kingdom, description, image, total_population, taxon_id, iucn_status) =
+    (r.scientific_name, r.common_name, r.kingdom, r.description, r.image, r.total_population, r.taxon_id, r.iucn_status)
+  from jsonb_populate_record(null::public.species, target.new_data) r
+  where s.id = target.species_id and public.can_manage_species(s.id);
+
+  if not found then
+    raise exception 'only the author of an existing species or a moderator can revert it';
+  end if;
+
+  perform set_config('app.reverted_from', '', true);
+end;
+$$ language plpgsql;
+
+-- Soft delete: deleting a species moves it to its author's trash (Settings → Trash), where it can be restored or
+-- purged. Trashed species stay readable so realtime subscribers see the update, so queries must filter on deleted_at.
+alter table species
+  add column deleted_at timestamptz;
+create index species_deleted_at_idx on species (deleted_at) where deleted_at is not null;
+
+-- Settings that can be changed without redeploying the app
+create table app_settings (
+  key text primary key,
+  value jsonb not null
+);
+
+alter table app_settings
+  enable row level security;
+
+create policy "App settings are viewable by everyone." on app_settings
+  for select using (true);
+
+-- Days a species stays in the trash before it is purged
+insert into app_settings (key, value) values ('species_trash_retention_days', '30');
+
+-- Permanently deletes species that have been in the trash for longer than the retention period, along with the stored
+-- files of their gallery images (species_images, below) that no remaining species shows
+create function public.purge_deleted_species()
+returns int as $$
+declare
+  cutoff timestamptz := now() - make_interval(days => (
+    select (value #>> '{}')::int from public.app_settings where key = 'species_trash_retention_days'
+  ));
+  paths text[];
+  purged int;
+begin
+  -- Gallery rows go with their species, so note their files first
+  select array_agg(distinct i.storage_path) into paths
+  from public.species_images i
+  join public.species s on s.id = i.species_id
+  where s.deleted_at < cutoff and i.storage_path is not null;
+
+  delete from public.species where deleted_at < cutoff;
+  get diagnostics purged = row_count;
+
+  -- Each upload is a folder holding its variants
+  delete from storage.objects o
+  using unnest(paths) as p(path)
+  where o.bucket_id = 'species-images'
+    and o.name like regexp_replace(p.path, '[^/]+$', '') || '%'
+    and not exists (select 1 from public.species_images i where i.storage_path = p.path);
+  return purged;
+end;
+$$ language plpgsql security definer set search_path = public;
+revoke execute on function public.purge_deleted_species() from public, anon, authenticated;
+
+-- Purge nightly: https://supabase.com/docs/guides/database/extensions/pg_cron
+create extension if not exists pg_cron;
+select cron.schedule('purge-deleted-species', '0 3 * * *', 'select public.purge_deleted_species()');
+
+-- Matches species whose names or description contain the query words, or whose names are within a typo of it
+-- (e.g. "cheeta" finds Cheetah). Trashed species are left out. `headline` is a description excerpt with matches
+-- wrapped in [[ and ]].
+create function public.search_species(query text)
+returns table (
+  id int,
+  scientific_name text,
+  common_name text,
+  total_population int,
+  kingdom kingdom,
+  description text,
+  image text,
+  author uuid,
+  taxon_id int,
+  iucn_status iucn_category,
+  deleted_at timestamptz,
+  rank real,
+  headline text
+) as $$
+  select
+    s.id,
+    s.scientific_name,
+    s.common_name,
+    s.total_population,
+    s.kingdom,
+    s.description,
+    s.image,
+    s.author,
+    s.taxon_id,
+    s.iucn_status,
+    s.deleted_at,
+    (
+      ts_rank(public.species_search_document(s.scientific_name, s.common_name, s.description), q.ts) +
+      greatest(
+        extensions.word_similarity(query, s.scientific_name),
+        extensions.word_similarity(query, coalesce(s.common_name, ''))
+      )
+    )::real as rank,
+    case
+      when to_tsvector('english', coalesce(s.description, '')) @@ q.ts then
+        ts_headline('english', s.description, q.ts,
+          'StartSel="[[", StopSel="]]", MaxFragments=1, MinWords=10, MaxWords=30, FragmentDelimiter=" … "')
+    end as headline
+  from species s, websearch_to_tsquery('english', query) as q(ts)
+  where s.deleted_at is null
+    and (
+      public.species_search_document(s.scientific_name, s.common_name, s.description) @@ q.ts
+      or query operator(extensions.<%) s.scientific_name
+      or query operator(extensions.<%) s.common_name
+    );
+$$ language sql stable;
+
+-- Species images: the /api/species/images route resizes uploads and stores them as
+-- <user id>/<upload id>/{full,thumb}.webp. Images are public; users can only write to their own folder, and since
+-- only a species' author can change its image, every stored image belongs to the author of the species using it.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('species-images', 'species-images', true, 5242880, array['image/webp']);
+
+create policy "Species images are viewable by everyone." on storage.objects
+  for select using (bucket_id = 'species-images');
+
+create policy "Users can upload species images to their own folder." on storage.objects
+  for insert to authenticated with check (
+    bucket_id = 'species-images' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users can delete their own species images." on storage.objects
+  for delete to authenticated using (
+    bucket_id = 'species-images' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Image gallery for species, with credit and license for each image. species.image keeps the URL of the primary
+-- image so lists and cards don't need a join; the triggers below keep the two in sync in both directions.
+create table species_images (
+  id int generated by default as identity primary key,
+  species_id int not null references species on delete cascade,
+  url text not null,
+  -- Path in the species-images bucket, for images uploaded through the app
+  storage_path text generated always as (substring(url from '/storage/v1/object/public/species-images/(.+)$')) stored,
+  caption text,
+  -- Who created the image, as it should be credited
+  author text,
+  license text,
+  license_url text,
+  -- Page the image was taken from, e.g. its Wikimedia Commons file page
+  source_url text,
+  is_primary boolean not null default false,
+  added_by uuid references profiles on delete set null,
+  created_at timestamptz not null default now(),
+  unique (species_id, url)
+);
+create unique index species_images_primary_idx on species_images (species_id) where is_primary;
+
+alter table species_images
+  enable row level security;
+
+create policy "Species images are viewable by everyone." on species_images
+  for select using (true);
+
+-- Setting species.image (from the species forms, or "set as primary" in the gallery) makes that image the primary one,
+-- adding it to the gallery if needed
+create function public.sync_species_primary_image()
+returns trigger as $$
+begin
+  if tg_op = 'UPDATE' and new.image is not distinct from old.image then
+    return new;
+  end if;
+
+  update public.species_images set is_primary = false
+  where species_id = new.id and is_primary and url is distinct from new.image;
+
+  if coalesce(new.image, '') <> '' then
+    insert into public.species_images (species_id, url, is_primary, added_by)
+    values (new.id, new.image, true, coalesce(auth.uid(), new.author))
+    on conflict (species_id, url) do update set is_primary = true;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger on_species_image_changed
+  after insert or update of image on public.species
+  for each row execute procedure public.sync_species_primary_image();
+
+-- Removing the primary image promotes the oldest remaining one
+create function public.replace_removed_primary_image()
+returns trigger as $$
+begin
+  if old.is_primary then
+    update public.species
+    set image = (
+      select url from public.species_images where species_id = old.species_id order by created_at, id limit 1
+    )
+    where id = old.species_id;
+  end if;
+  return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger on_species_image_removed
+  after delete on public.species_images
+  for each row execute procedure public.replace_removed_primary_image();
+
+-- Existing species images become the first gallery entry
+insert into species_images (species_id, url, is_primary, added_by)
+select id, image, true, author from species where coalesce(image, '') <> '';
+
+-- Suggested edits: signed-in users who didn't create a species can propose changes to it, and its author reviews them
+-- under Settings → Suggested edits. Accepting a proposal applies it through accept_species_edit_proposal.
+create table species_edit_proposals (
+  id int generated by default as identity primary key,
+  species_id int not null references species on delete cascade,
+  proposed_by uuid not null references profiles on delete cascade,
+  -- Only the proposed fields, keyed by species column, except the lineage: that is proposed by name under 'taxonomy'
+  changes jsonb not null check (jsonb_typeof(changes) = 'object' and changes <> '{}'),
+  -- The same fields as they were when the edit was proposed, so reviewers can see what changed since
+  base_data jsonb not null,
+  comment text,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'rejected')),
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+create index species_edit_proposals_species_id_idx on species_edit_proposals (species_id) where status = 'pending';
+create index species_edit_proposals_proposed_by_idx on species_edit_proposals (proposed_by, created_at desc);
+
+alter table species_edit_proposals
+  enable row level security;
+
+create policy "Users can withdraw their pending proposals." on species_edit_proposals
+  for delete using (auth.uid() = proposed_by and status = 'pending');
+
+-- Applies a pending proposal on top of the current species. Runs as the caller, so only the species' author or a
+-- moderator can accept it (the species update policy applies), and the change is recorded as a revision by them
+-- like any other edit. Suggesting an edit doesn't add taxa to the shared tree: accepting it creates the proposed
+-- lineage (under the proposed kingdom, if that changes too) and points the species at it.
+create function public.accept_species_edit_proposal(proposal int)
+returns void as $$
+declare
+  target public.species_edit_proposals;
+  current_species public.species;
+  updated public.species;
+begin
+  select * from public.species_edit_proposals where id = proposal and status = 'pending' into target;
+  if target.id is null then
+    raise exception 'proposal % is not pending', proposal;
+  end if;
+
+  select * from public.species
+  where id = target.species_id and deleted_at is null and public.can_manage_species(id)
+  into current_species;
+  if current_species.id is null then
+    raise exception 'only the author of an existing species or a moderator can accept edits to it';
+  end if;
+
+  updated := jsonb_populate_record(current_species, target.changes);
+
+  if target.changes ? 'taxonomy' then
+    updated.taxon_id := public.ensure_taxon_lineage(
+      updated.kingdom,
+      target.changes->'taxonomy'->>'phylum',
+      target.changes->'taxonomy'->>'class',
+      target.changes->'taxonomy'->>'order',
+      target.changes->'taxonomy'->>'family',
+      target.changes->'taxonomy'->>'genus'
+    );
+  end if;
+
+  update public.species
+  set (scientific_name, common_name, kingdom, description, image, total_population, taxon_id, iucn_status) =
+    (updated.scientific_name, updated.common_name, updated.kingdom, updated.description, updated.image,
+     updated.total_population, updated.taxon_id, updated.iucn_status)
+  where id = current_species.id;
+
+  update public.species_edit_proposals set status = 'accepted', reviewed_at = now() where id = proposal;
+end;
+$$ language plpgsql;
+
+-- Roles, in increasing order of access (comparisons rely on the order):
+--   viewer: read only; contributor: add species, edit their own and suggest edits to others;
+--   moderator: also edit and delete any species and review suggested edits; admin: also manage roles and authorship.
+-- New users are contributors. Promote the first admin by hand: update profiles set role = 'admin' where email = '...';
+create type user_role as enum ('viewer', 'contributor', 'moderator', 'admin');
+
+alter table profiles
+  add column role user_role not null default 'contributor';
+
+-- Whether the signed in user has at least the given role. Security definer so policies on other tables can call it
+-- without going through the profiles policies.
+create function public.has_role(required user_role)
+returns boolean as $$
+  select coalesce((select role >= required from public.profiles where id = auth.uid()), false);
+$$ language sql stable security definer set search_path = public;
+
+-- Only admins can change roles and chat quotas, including their own, and users can't give themselves either when
+-- creating a profile
+create function public.profile_columns_updateable()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' and new.role <> 'contributor' and not public.has_role('admin') then
+    raise exception 'only admins can assign roles';
+  end if;
+  if tg_op = 'UPDATE' and new.role <> old.role and not public.has_role('admin') then
+    raise exception 'only admins can change roles';
+  end if;
+  if tg_op = 'INSERT' and new.chat_daily_token_quota is not null and not public.has_role('admin') then
+    raise exception 'only admins can assign chat quotas';
+  end if;
+  if tg_op = 'UPDATE' and new.chat_daily_token_quota is distinct from old.chat_daily_token_quota
+    and not public.has_role('admin') then
+    raise exception 'only admins can change chat quotas';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger profile_columns_updateable
+  before insert or update on public.profiles
+  for each row execute procedure public.profile_columns_updateable();
+
+create policy "Admins can update any profile." on profiles
+  for update using (public.has_role('admin'));
+
+-- Whether the signed in user can change the given species and the records that belong to it
+create function public.can_manage_species(species_id int)
+returns boolean as $$
+  select public.has_role('moderator') or (
+    public.has_role('contributor')
+    and exists (select 1 from public.species where id = species_id and author = auth.uid())
+  );
+$$ language sql stable security definer set search_path = public;
+
+create policy "Contributors can insert their own species." on species
+  for insert with check (auth.uid() = author and public.has_role('contributor'));
+
+create policy "Authors and moderators can update species." on species
+  for update using ((auth.uid() = author and public.has_role('contributor')) or public.has_role('moderator'));
+
+create policy "Authors and moderators can delete species." on species
+  for delete using ((auth.uid() = author and public.has_role('contributor')) or public.has_role('moderator'));
+
+create policy "Species managers can insert assessments." on species_assessments
+  for insert with check (auth.uid() = author and public.can_manage_species(species_id));
+
+create policy "Species managers can delete assessments." on species_assessments
+  for delete using (public.can_manage_species(species_id));
+
+create policy "Species managers can add images." on species_images
+  for insert with check (public.can_manage_species(species_id));
+
+create policy "Species managers can update images." on species_images
+  for update using (public.can_manage_species(species_id));
+
+create policy "Species managers can delete images." on species_images
+  for delete using (public.can_manage_species(species_id));
+
+create policy "Proposals are viewable by their proposer and species managers." on species_edit_proposals
+  for select using (auth.uid() = proposed_by or public.can_manage_species(species_id));
+
+create policy "Contributors can propose edits to species they can't edit." on species_edit_proposals
+  for insert with check (
+    auth.uid() = proposed_by
+    and status = 'pending'
+    and public.has_role('contributor')
+    and not public.can_manage_species(species_id)
+    and exists (select 1 from species where species.id = species_id and species.deleted_at is null)
+  );
+
+-- Without the separate check, the using clause would also apply to the reviewed row and reject the new status
+create policy "Species managers can review proposals." on species_edit_proposals
+  for update using (status = 'pending' and public.can_manage_species(species_id))
+  with check (public.can_manage_species(species_id));
+
+-- Scientific names are stored in a canonical form, so "panthera  LEO (Linnaeus, 1758)" can't slip past the unique
+-- constraint on "Panthera leo". Must match normalizeScientificName in lib/scientific-name.ts: whitespace is collapsed,
+-- the genus capitalized and the epithets lowercased; the first capitalized or non-alphabetic word after the species
+-- epithet starts the author citation, which is dropped. Hybrid markers ("Mentha × piperita", also typed "x") are kept
+-- as "×".
+create function public.normalize_scientific_name(name text)
+returns text as $$
+declare
+  -- A hybrid sign attached to a name ("×piperita") is split off it
+  words text[] := regexp_split_to_array(
+    regexp_replace(regexp_replace(name, '^\s+|\s+$', '', 'g'), '(^|\s)×(?=\S)', '\1× ', 'g'),
+    '\s+'
+  );
+  result text := '';
+  species_next boolean := true;
+begin
+  if array_length(words, 1) > 1 and words[1] ~ '^[×xX]$' then
+    result := '× ';
+    words := words[2:];
+  end if;
+  if coalesce(words[1], '') = '' then
+    return '';
+  end if;
+
+  result := result || upper(left(words[1], 1)) || lower(substr(words[1], 2));
+  for i in 2 .. array_length(words, 1) loop
+    if species_next and words[i] ~ '^[×xX]$' and i < array_length(words, 1) then
+      result := result || ' ×';
+    elsif lower(words[i]) in ('subsp.', 'ssp.', 'var.', 'subvar.', 'f.', 'forma', 'cv.')
+      or (words[i] ~ '^[A-Za-z-]+$' and (species_next or words[i] = lower(words[i]))) then
+      result := result || ' ' || lower(words[i]);
+      species_next := false;
+    else
+      exit;
+    end if;
+  end loop;
+  return result;
+end;
+$$ language plpgsql immutable;
+
+-- Alternate names (older combinations, misspellings in use) that refer to an accepted species
+create table species_synonyms (
+  id int generated by default as identity primary key,
+  species_id int not null references species on delete cascade,
+  name text not null unique,
+  added_by uuid references profiles on delete set null,
+  created_at timestamptz not null default now()
+);
+create index species_synonyms_species_id_idx on species_synonyms (species_id);
+
+alter table species_synonyms
+  enable row level security;
+
+create policy "Synonyms are viewable by everyone." on species_synonyms
+  for select using (true);
+
+create policy "Species managers can add synonyms." on species_synonyms
+  for insert with check (public.can_manage_species(species_id));
+
+create policy "Species managers can delete synonyms." on species_synonyms
+  for delete using (public.can_manage_species(species_id));
+
+-- Normalizes the name, and keeps accepted names and synonyms apart: a name can't be both
+create function public.normalize_species_name()
+returns trigger as $$
+begin
+  new.scientific_name := public.normalize_scientific_name(new.scientific_name);
+  if exists (
+    select 1 from public.species_synonyms where name = new.scientific_name and species_id <> new.id
+  ) then
+    raise exception '% is a synonym of another species', new.scientific_name;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger normalize_species_name
+  before insert or update of scientific_name on public.species
+  for each row execute procedure public.normalize_species_name();
+
+create function public.normalize_synonym_name()
+returns trigger as $$
+begin
+  new.name := public.normalize_scientific_name(new.name);
+  if exists (select 1 from public.species where scientific_name = new.name) then
+    raise exception '% is already the name of a species', new.name;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+create trigger normalize_synonym_name
+  before insert or update of name on public.species_synonyms
+  for each row execute procedure public.normalize_synonym_name();
+
+-- Normalize existing names, except where that would collide with another species. Those keep their name as it is
+-- until someone who can manage both species merges them with merge_species.
+update species s set scientific_name = public.normalize_scientific_name(s.scientific_name)
+where s.scientific_name <> public.normalize_scientific_name(s.scientific_name)
+  and not exists (
+    select 1 from species other
+    where other.id <> s.id
+      and public.normalize_scientific_name(other.scientific_name) = public.normalize_scientific_name(s.scientific_name)
+  );
+
+-- Species that may be the same as the given name: the same normalized name, a synonym of it, or a similar name
+-- (e.g. a typo). Trashed species are included because their names are still taken.
+create function public.find_similar_species(candidate text)
+returns table (
+  id int,
+  scientific_name text,
+  common_name text,
+  matched_name text,
+  match_type text,
+  in_trash boolean
+) as $$
+  with target as (
+    select public.normalize_scientific_name(candidate) as name
+  ), matches as (
+    select s.id as species_id, s.scientific_name as matched_name, 'exact' as match_type, 1::real as score
+    from species s, target
+    where s.scientific_name = target.name
+    union all
+    select syn.species_id, syn.name, 'synonym', 1::real
+    from species_synonyms syn, target
+    where syn.name = target.name
+    union all
+    select s.id, s.scientific_name, 'similar', extensions.similarity(s.scientific_name, target.name)
+    from species s, target
+    where s.scientific_name <> target.name
+      and s.scientific_name operator(extensions.%) target.name
+      and extensions.similarity(s.scientific_name, target.name) >= 0.5
+    union all
+    select syn.species_id, syn.name, 'similar', extensions.similarity(syn.name, target.name)
+    from species_synonyms syn, target
+    where syn.name <> target.name
+      and extensions.similarity(syn.name, target.name) >= 0.5
+  )
+  select id, scientific_name, common_name, matched_name, match_type, in_trash
+  from (
+    -- One row per species, for its best match
+    select distinct on (s.id)
+      s.id, s.scientific_name, s.common_name, m.matched_name, m.match_type, s.deleted_at is not null as in_trash, m.score
+    from matches m
+    join species s on s.id = m.species_id
+    where (select name from target) <> ''
+    order by s.id, m.score desc
+  ) best
+  order by score desc, scientific_name
+  limit 10;
+$$ language sql stable;
+
+-- Merges a duplicate species into the one that is kept. The duplicate's assessments, images and synonyms move over,
+-- blank fields of the kept species are filled from it, its name becomes a synonym, and its change history (including
+-- the deletion) is listed under the kept species. Runs as security definer because the policies don't allow moving
+-- rows between species, so it checks that the caller can manage both.
+create function public.merge_species(duplicate int, kept int)
+returns void as $$
+declare
+  source public.species;
+begin
+  if duplicate = kept then
+    raise exception 'a species cannot be merged into itself';
+  end if;
+  if not (public.can_manage_species(duplicate) and public.can_manage_species(kept)) then
+    raise exception 'only users who can manage both species can merge them';
+  end if;
+
+  select * from public.species where id = duplicate into source;
+  if source.id is null or not exists (select 1 from public.species where id = kept and deleted_at is null) then
+    raise exception 'both species must exist, and the kept one must not be in the trash';
+  end if;
+
+  update public.species_assessments set species_id = kept where species_id = duplicate;
+  update public.species_synonyms set species_id = kept where species_id = duplicate;
+  -- Images the kept species already has are left behind and deleted with the duplicate
+  update public.species_images set species_id = kept, is_primary = false
+  where species_id = duplicate and url not in (select url from public.species_images where species_id = kept);
+
+  update public.species s set
+    common_name = coalesce(nullif(s.common_name, ''), source.common_name),
+    description = coalesce(nullif(s.description, ''), source.description),
+    image = coalesce(nullif(s.image, ''), source.image),
+    taxon_id = coalesce(s.taxon_id, source.taxon_id),
+    iucn_status = coalesce(s.iucn_status, source.iucn_status),
+    total_population = coalesce(s.total_population, source.total_population)
+  where s.id = kept;
+
+  -- The name is only free to become a synonym once the duplicate is gone
+  delete from public.species where id = duplicate;
+  insert into public.species_synonyms (species_id, name, added_by) values (kept, source.scientific_name, auth.uid());
+
+  update public.species_revisions set species_id = kept where species_id = duplicate;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- SpeciesBot conversations. /api/chat stores both sides of each turn; users only ever see their own chats.
+create table chat_sessions (
+  id int generated by default as identity primary key,
+  user_id uuid not null references profiles on delete cascade,
+  title text not null default 'New chat' check (char_length(title) between 1 and 100),
+  created_at timestamptz not null default now(),
+  -- Bumped by every new message, so the most recently used chats list first
+  updated_at timestamptz not null default now()
+);
+create index chat_sessions_user_id_idx on chat_sessions (user_id, updated_at desc);
+
+create table chat_messages (
+  id int generated by default as identity primary key,
+  session_id int not null references chat_sessions on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+create index chat_messages_session_id_idx on chat_messages (session_id, id);
+
+alter table chat_sessions
+  enable row level security;
+
+create policy "Users can view their own chats." on chat_sessions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can start chats." on chat_sessions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can rename their own chats." on chat_sessions
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their own chats." on chat_sessions
+  for delete using (auth.uid() = user_id);
+
+-- Messages are never edited; they go away with their chat
+alter table chat_messages
+  enable row level security;
+
+create policy "Users can view the messages of their own chats." on chat_messages
+  for select using (
+    exists (select 1 from chat_sessions where chat_sessions.id = session_id and chat_sessions.user_id = auth.uid())
+  );
+
+create policy "Users can add messages to their own chats." on chat_messages
+  for insert with check (
+    exists (select 1 from chat_sessions where chat_sessions.id = session_id and chat_sessions.user_id = auth.uid())
+  );
+
+create function public.touch_chat_session()
+returns trigger as $$
+begin
+  update public.chat_sessions set updated_at = now() where id = new.session_id;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger touch_chat_session
+  after insert on chat_messages
+  for each row execute procedure public.touch_chat_session();
+
+-- SpeciesBot context: species a chat message talks about. search_species needs every word of the query to match, which
+-- a whole question rarely does, so this matches species named anywhere in the message (by scientific or common name,
+-- or a synonym) and, failing that, descriptions sharing any of its words. Species in the trash are left out.
+create function public.match_chat_species(message text, match_count int default 5)
+returns table (
+  id int,
+  scientific_name text,
+  common_name text,
+  kingdom kingdom,
+  iucn_status iucn_category,
+  total_population int,
+  description text,
+  rank real
+) as $$
+  select
+    s.id,
+    s.scientific_name,
+    s.common_name,
+    s.kingdom,
+    s.iucn_status,
+    s.total_population,
+    s.description,
+    (
+      -- Naming the species outweighs any number of shared words
+      2 * greatest(
+        extensions.word_similarity(s.scientific_name, message),
+        extensions.word_similarity(coalesce(s.common_name, ''), message),
+        coalesce(
+          (select max(extensions.word_similarity(syn.name, message)) from public.species_synonyms syn where syn.species_id = s.id),
+          0
+        )
+      ) +
+      ts_rank(public.species_search_document(s.scientific_name, s.common_name, s.description), q.ts)
+    )::real as rank
+  from species s,
+    -- Any word of the message rather than all of them
+    lateral (select replace(plainto_tsquery('english', message)::text, '&', '|')::tsquery as ts) q
+  where s.deleted_at is null
+    and (
+      s.scientific_name operator(extensions.<%) message
+      or s.common_name operator(extensions.<%) message
+      or exists (
+        select 1 from public.species_synonyms syn
+        where syn.species_id = s.id and syn.name operator(extensions.<%) message
+      )
+      or public.species_search_document(s.scientific_name, s.common_name, s.description) @@ q.ts
+    )
+  order by rank desc
+  limit match_count;
+$$ language sql stable;
+
+-- SpeciesBot topic guard: whether a message names a species in our catalog (by scientific or common name, or a
+-- synonym), so questions about species outside its keyword list aren't turned away
+create function public.mentions_catalog_species(message text)
+returns boolean as $$
+  select exists (
+    select 1 from species s
+    where s.deleted_at is null
+      and (s.scientific_name operator(extensions.<%) message or s.common_name operator(extensions.<%) message)
+  ) or exists (
+    select 1 from species_synonyms syn
+    join species s on s.id = syn.species_id
+    where s.deleted_at is null and syn.name operator(extensions.<%) message
+  );
+$$ language sql stable;
+
+-- SpeciesBot usage: the tokens each /api/chat request used, for daily quotas and the Settings → Usage panel
+create table chat_usage (
+  id int generated by default as identity primary key,
+  user_id uuid not null references profiles on delete cascade,
+  -- Usage outlives the chat it was spent in, so deleting a chat doesn't refill the quota
+  session_id int references chat_sessions on delete set null,
+  provider text not null,
+  model text not null,
+  prompt_tokens int not null check (prompt_tokens >= 0),
+  completion_tokens int not null check (completion_tokens >= 0),
+  created_at timestamptz not null default now()
+);
+create index chat_usage_user_id_idx on chat_usage (user_id, created_at desc);
+
+-- Recorded by /api/chat as the signed in user; never edited or deleted by them
+alter table chat_usage
+  enable row level security;
+
+create policy "Users can view their own chat usage." on chat_usage
+  for select using (auth.uid() = user_id);
+
+create policy "Users can record their own chat usage." on chat_usage
+  for insert with check (auth.uid() = user_id);
+
+-- Daily token allowance: app-wide, unless an admin gives a user their own with
+-- update profiles set chat_daily_token_quota = ... where email = '...';
+insert into app_settings (key, value) values ('chat_daily_token_quota', '50000');
+
+alter table profiles
+  add column chat_daily_token_quota int check (chat_daily_token_quota >= 0);
+
+-- The signed in user's daily token allowance; null when there is none
+create function public.chat_token_quota()
+returns int as $$
+  select coalesce(
+    (select chat_daily_token_quota from public.profiles where id = auth.uid()),
+    (select (value #>> '{}')::int from public.app_settings where key = 'chat_daily_token_quota')
+  );
+$$ language sql stable;
+
+-- The signed in user's usage per day (UTC, when quotas reset) over the last `days` days, most recent first
+create function public.chat_usage_by_day(days int default 30)
+returns table (
+  day date,
+  requests int,
+  prompt_tokens bigint,
+  completion_tokens bigint
+) as $$
+  select
+    (created_at at time zone 'utc')::date as day,
+    count(*)::int,
+    sum(prompt_tokens)::bigint,
+    sum(completion_tokens)::bigint
+  from public.chat_usage
+  where user_id = auth.uid()
+    and created_at >= ((now() at time zone 'utc')::date - (days - 1))::timestamp at time zone 'utc'
+  group by 1
+  order by 1 desc;
+$$ language sql stable;
+
+-- Fixed-window rate limits for /api/chat in production (development counts in memory). Only hit_rate_limit reads or
+-- writes this table, so it has no policies.
+create table rate_limits (
+  bucket text primary key,
+  window_start timestamptz not null,
+  hits int not null
+);
+
+alter table rate_limits
+  enable row level security;
+
+-- Counts a hit against a bucket such as 'chat:user:<id>' and returns the seconds until the bucket has room again, or
+-- 0 when the hit is within the limit. The limits come from the caller, so only the server calls it, with the service
+-- role key: a signed in user could otherwise pass a huge window to lock someone else out, or a new bucket each time.
+create function public.hit_rate_limit(bucket_key text, max_hits int, window_seconds int)
+returns int as $$
+declare
+  entry public.rate_limits;
+  window_length interval := make_interval(secs => window_seconds);
+begin
+  insert into public.rate_limits as r (bucket, window_start, hits)
+  values (bucket_key, now(), 1)
+  on conflict (bucket) do update set
+    window_start = case when r.window_start <= now() - window_length then now() else r.window_start end,
+    hits = case when r.window_start <= now() - window_length then 1 else r.hits + 1 end
+  returning * into entry;
+
+  -- Buckets for one-off visitors would otherwise pile up
+  if random() < 0.01 then
+    delete from public.rate_limits where window_start < now() - interval '1 day';
+  end if;
+
+  if entry.hits <= max_hits then
+    return 0;
+  end if;
+  return greatest(1, ceil(extract(epoch from entry.window_start + window_length - now())))::int;
+end;
+$$ language plpgsql security definer set search_path = public;
+revoke execute on function public.hit_rate_limit(text, int, int) from public, anon, authenticated;
+grant execute on function public.hit_rate_limit(text, int, int) to service_role;
+
+-- SpeciesBot answers to the first question of a chat, shared by everyone who asks the same thing. Keys cover the
+-- provider, model and system prompt as well as the question (see lib/services/chat-cache.ts). Only the server reads and
+-- writes it, with the service role key, so it has no policies and no user can plant an answer for others.
+create table chat_response_cache (
+  key text primary key,
+  reply text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+create index chat_response_cache_expires_at_idx on chat_response_cache (expires_at);
+
+alter table chat_response_cache
+  enable row level security;
+
+-- Expired answers are never served; this only keeps the table small
+select cron.schedule(
+  'purge-chat-response-cache', '30 * * * *', 'delete from public.chat_response_cache where expires_at < now()'
+);